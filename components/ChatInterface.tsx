@@ -4,9 +4,9 @@
 */
 
 import React, { useState, useRef, useEffect } from 'react';
-import { ChatMessage, MessageSender } from '../types'; 
+import { ChatMessage, Citation, GlossaryTerm, MessageSender } from '../types';
 import MessageItem from './MessageItem';
-import { Send, Menu } from 'lucide-react';
+import { Send, Menu, Square } from 'lucide-react';
 
 interface ChatInterfaceProps {
   messages: ChatMessage[];
@@ -17,6 +17,13 @@ interface ChatInterfaceProps {
   onSuggestedQueryClick?: (query: string) => void;
   isFetchingSuggestions?: boolean;
   onToggleSidebar?: () => void;
+  onStop?: () => void;
+  title?: string;
+  inputPlaceholder?: string;
+  citationHref?: (citation: Citation) => string;
+  onRegenerate?: (message: ChatMessage) => void; // Offered on the latest answer
+  onRetry?: (message: ChatMessage) => void; // Offered on a failed answer when it is the last message
+  glossaryTerms?: GlossaryTerm[];
 }
 
 const ChatInterface: React.FC<ChatInterfaceProps> = ({ 
@@ -28,6 +35,13 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   onSuggestedQueryClick,
   isFetchingSuggestions,
   onToggleSidebar,
+  onStop,
+  title = 'Documentation Browser',
+  inputPlaceholder = 'Ask about the documents...',
+  citationHref,
+  onRegenerate,
+  onRetry,
+  glossaryTerms,
 }) => {
   const [userQuery, setUserQuery] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -45,6 +59,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   };
 
+  const latestAnswer = [...messages].reverse().find(m => m.sender === MessageSender.MODEL);
+
   const showSuggestions = initialQuerySuggestions && initialQuerySuggestions.length > 0 && messages.filter(m => m.sender !== MessageSender.SYSTEM).length <= 1;
 
   return (
@@ -61,7 +77,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             </button>
           )}
           <div>
-            <h2 className="text-xl font-semibold text-[#E2E2E2]">Documentation Browser</h2>
+            <h2 className="text-xl font-semibold text-[#E2E2E2]">{title}</h2>
             {placeholderText && messages.filter(m => m.sender !== MessageSender.SYSTEM).length === 0 && (
                <p className="text-xs text-[#A8ABB4] mt-1 max-w-md truncate" title={placeholderText}>{placeholderText}</p>
             )}
@@ -74,7 +90,14 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         {/* New wrapper for max-width and centering */}
         <div className="max-w-4xl mx-auto w-full">
           {messages.map((msg) => (
-            <MessageItem key={msg.id} message={msg} />
+            <MessageItem
+              key={msg.id}
+              message={msg}
+              citationHref={citationHref}
+              onRegenerate={onRegenerate && !isLoading && msg === latestAnswer ? onRegenerate : undefined}
+              onRetry={onRetry && !isLoading && msg === messages[messages.length - 1] ? onRetry : undefined}
+              glossaryTerms={glossaryTerms}
+            />
           ))}
           
           {isFetchingSuggestions && (
@@ -113,7 +136,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
           <textarea
             value={userQuery}
             onChange={(e) => setUserQuery(e.target.value)}
-            placeholder="Ask about the documents..."
+            placeholder={inputPlaceholder}
             className="flex-grow h-8 min-h-[32px] py-1.5 px-2.5 border border-[rgba(255,255,255,0.1)] bg-[#2C2C2C] text-[#E2E2E2] placeholder-[#777777] rounded-lg focus:ring-1 focus:ring-white/20 focus:border-white/20 transition-shadow resize-none text-sm"
             rows={1}
             disabled={isLoading || isFetchingSuggestions}
@@ -124,17 +147,27 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
               }
             }}
           />
-          <button
-            onClick={handleSend}
-            disabled={isLoading || isFetchingSuggestions || !userQuery.trim()}
-            className="h-8 w-8 p-1.5 bg-white/[.12] hover:bg-white/20 text-white rounded-lg transition-colors disabled:bg-[#4A4A4A] disabled:text-[#777777] flex items-center justify-center flex-shrink-0"
-            aria-label="Send message"
-          >
-            {(isLoading && messages[messages.length-1]?.isLoading && messages[messages.length-1]?.sender === MessageSender.MODEL) ? 
-              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div> 
-              : <Send size={16} />
-            }
-          </button>
+          {isLoading && onStop ? (
+            <button
+              onClick={onStop}
+              className="h-8 w-8 p-1.5 bg-white/[.12] hover:bg-white/20 text-white rounded-lg transition-colors flex items-center justify-center flex-shrink-0"
+              aria-label="Stop generating"
+            >
+              <Square size={14} />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={isLoading || isFetchingSuggestions || !userQuery.trim()}
+              className="h-8 w-8 p-1.5 bg-white/[.12] hover:bg-white/20 text-white rounded-lg transition-colors disabled:bg-[#4A4A4A] disabled:text-[#777777] flex items-center justify-center flex-shrink-0"
+              aria-label="Send message"
+            >
+              {(isLoading && messages[messages.length-1]?.isLoading && messages[messages.length-1]?.sender === MessageSender.MODEL) ? 
+                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div> 
+                : <Send size={16} />
+              }
+            </button>
+          )}
         </div>
       </div>
     </div>
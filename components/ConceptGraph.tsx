@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { layoutGraph } from '../services/graphLayout';
+import type { Point } from '../services/graphLayout';
+import type { ConceptRelation, GlossaryTerm } from '../types';
+
+interface ConceptGraphProps {
+  terms: GlossaryTerm[];
+  relations: ConceptRelation[];
+  selectedId?: string;
+  onSelect: (id: string) => void;
+}
+
+const WIDTH = 720;
+const HEIGHT = 420;
+const NODE_RADIUS = 10;
+
+// Component for the node-link graph of a glossary's concepts, with draggable nodes
+const ConceptGraph: React.FC<ConceptGraphProps> = ({ terms, relations, selectedId, onSelect }) => {
+  const layout = useMemo(
+    () => layoutGraph(terms.map(term => term.id), relations, WIDTH, HEIGHT),
+    [terms, relations]
+  );
+  const [positions, setPositions] = useState<Record<string, Point>>(layout);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ id: string; moved: boolean } | null>(null);
+
+  useEffect(() => setPositions(layout), [layout]);
+
+  const focusId = hoveredId ?? selectedId;
+  const neighbours = useMemo(() => {
+    const ids = new Set<string>();
+    for (const relation of relations) {
+      if (relation.source === focusId) ids.add(relation.target);
+      if (relation.target === focusId) ids.add(relation.source);
+    }
+    return ids;
+  }, [relations, focusId]);
+
+  // Converts a pointer position to SVG coordinates, which differ from pixels once the graph is scaled.
+  const toSvgPoint = (e: React.PointerEvent): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(WIDTH, Math.max(0, ((e.clientX - rect.left) / rect.width) * WIDTH)),
+      y: Math.min(HEIGHT, Math.max(0, ((e.clientY - rect.top) / rect.height) * HEIGHT)),
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    drag.moved = true;
+    const point = toSvgPoint(e);
+    setPositions(prev => ({ ...prev, [drag.id]: point }));
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag && !drag.moved) onSelect(drag.id);
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto bg-white rounded-lg border border-slate-200 select-none touch-none"
+      role="group"
+      aria-label="Concept graph"
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={handlePointerUp}
+    >
+      <defs>
+        <marker id="concept-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="#94a3b8" />
+        </marker>
+      </defs>
+      {relations.map(relation => {
+        const from = positions[relation.source];
+        const to = positions[relation.target];
+        if (!from || !to) return null;
+        const active = relation.source === focusId || relation.target === focusId;
+        // Stops the line at the edge of the target node so the arrowhead stays visible.
+        const length = Math.max(Math.hypot(to.x - from.x, to.y - from.y), 1);
+        const end = { x: to.x - ((to.x - from.x) / length) * (NODE_RADIUS + 2), y: to.y - ((to.y - from.y) / length) * (NODE_RADIUS + 2) };
+        return (
+          <g key={`${relation.source}-${relation.target}`} opacity={focusId && !active ? 0.25 : 1}>
+            <line
+              x1={from.x}
+              y1={from.y}
+              x2={end.x}
+              y2={end.y}
+              stroke={active ? '#2563eb' : '#94a3b8'}
+              strokeWidth={active ? 2 : 1.5}
+              markerEnd="url(#concept-arrow)"
+            />
+            {active && (
+              <text x={(from.x + to.x) / 2} y={(from.y + to.y) / 2 - 4} textAnchor="middle" className="fill-blue-700 text-[11px]">
+                {relation.label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+      {terms.map(term => {
+        const point = positions[term.id];
+        if (!point) return null;
+        const selected = term.id === selectedId;
+        const dimmed = focusId && term.id !== focusId && !neighbours.has(term.id);
+        return (
+          <g
+            key={term.id}
+            transform={`translate(${point.x} ${point.y})`}
+            opacity={dimmed ? 0.35 : 1}
+            className="cursor-pointer focus:outline-none"
+            tabIndex={0}
+            role="button"
+            aria-pressed={selected}
+            aria-label={term.term}
+            onPointerDown={(e) => {
+              (e.currentTarget as Element).setPointerCapture?.(e.pointerId);
+              dragRef.current = { id: term.id, moved: false };
+            }}
+            onPointerEnter={() => setHoveredId(term.id)}
+            onPointerLeave={() => setHoveredId(null)}
+            onFocus={() => setHoveredId(term.id)}
+            onBlur={() => setHoveredId(null)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault();
+                onSelect(term.id);
+              }
+            }}
+          >
+            <circle r={NODE_RADIUS} fill={selected ? '#2563eb' : '#e2e8f0'} stroke={selected ? '#1e40af' : '#64748b'} strokeWidth={1.5} />
+            <text y={NODE_RADIUS + 14} textAnchor="middle" className={`text-[12px] ${selected ? 'fill-blue-800 font-semibold' : 'fill-slate-700'}`}>
+              {term.term}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default ConceptGraph;
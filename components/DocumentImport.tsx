@@ -0,0 +1,229 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useMemo, useRef } from 'react';
+import { Upload, Loader2, AlertTriangle, FileText } from 'lucide-react';
+import { importFile, ACCEPTED_EXTENSIONS } from '../services/documentImporter';
+import type { ImportedDocument } from '../services/documentImporter';
+import { parseSections, renderDocument, slugify } from '../services/documentParser';
+import { saveDocument } from '../services/documentStore';
+import type { Document } from '../types';
+
+interface DocumentImportProps {
+  onImported: (document: Document) => void;
+}
+
+const FORMAT_LABELS: Record<ImportedDocument['format'], string> = {
+  markdown: 'Markdown',
+  text: 'Plain text',
+  html: 'HTML',
+  pdf: 'PDF',
+};
+
+// Component for uploading a file, previewing it as markdown and saving it to the library
+const DocumentImport: React.FC<DocumentImportProps> = ({ onImported }) => {
+  const [draft, setDraft] = useState<ImportedDocument | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [author, setAuthor] = useState('');
+  const [tab, setTab] = useState<'preview' | 'markdown'>('preview');
+  const [converting, setConverting] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sections = useMemo(() => draft ? parseSections(draft.body) : [], [draft?.body]);
+  const html = useMemo(() => draft && tab === 'preview' ? renderDocument(draft.body) : '', [draft?.body, tab]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setConverting(true);
+    setError(null);
+    try {
+      setDraft(await importFile(file));
+      setFileName(file.name);
+      setTab('preview');
+    } catch (err: any) {
+      console.error('Error importing file:', err);
+      setError(err.message);
+    } finally {
+      setConverting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const title = draft.title.trim() || 'Untitled document';
+      const saved = await saveDocument({
+        id: `${slugify(title)}-${crypto.randomUUID().slice(0, 8)}`,
+        title,
+        author: author.trim() || 'Unknown',
+        body: draft.body,
+      });
+      setDraft(null);
+      setAuthor('');
+      onImported(saved);
+    } catch (err: any) {
+      console.error('Error saving document:', err);
+      // localStorage throws a QuotaExceededError when the library is full.
+      setError(err.name === 'QuotaExceededError' ? 'There is not enough storage space left to save this document.' : err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4 md:p-8 flex flex-col items-center">
+      <div className="w-full max-w-3xl bg-gray-50 rounded-lg shadow-lg p-6">
+        <h2 className="text-2xl font-semibold text-gray-800 mb-4 text-center">Import a Document</h2>
+
+        {error && (
+          <div role="alert" className="mb-4 p-3 border border-red-200 bg-red-50 rounded-md text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {!draft ? (
+          <div
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragging(true);
+            }}
+            onDragLeave={() => setDragging(false)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setDragging(false);
+              handleFile(e.dataTransfer.files[0]);
+            }}
+            className={`p-10 border-2 border-dashed rounded-lg text-center transition-colors ${dragging ? 'border-blue-500 bg-blue-50' : 'border-slate-300 bg-white'}`}
+          >
+            {converting ? (
+              <div className="flex flex-col items-center text-gray-600">
+                <Loader2 size={32} className="animate-spin mb-2" />
+                Converting...
+              </div>
+            ) : (
+              <>
+                <Upload size={32} className="mx-auto mb-2 text-slate-400" />
+                <p className="text-gray-700">Drop a file here, or</p>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="mt-2 bg-blue-600 text-white font-semibold py-2 px-4 rounded-md hover:bg-blue-700 transition-colors"
+                >
+                  Choose a file
+                </button>
+                <p className="mt-3 text-xs text-gray-500">Markdown, plain text, HTML or PDF ({ACCEPTED_EXTENSIONS.join(', ')})</p>
+              </>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_EXTENSIONS.join(',')}
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+              className="hidden"
+            />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="flex items-center text-sm text-gray-500">
+              <FileText size={14} className="mr-1" />
+              {fileName} · {FORMAT_LABELS[draft.format]} · {sections.length} {sections.length === 1 ? 'section' : 'sections'}
+            </p>
+
+            {draft.warnings.length > 0 && (
+              <ul className="p-3 border border-amber-200 bg-amber-50 rounded-md text-sm text-amber-800 space-y-1">
+                {draft.warnings.map(warning => (
+                  <li key={warning} className="flex items-start">
+                    <AlertTriangle size={14} className="mr-1.5 mt-0.5 flex-shrink-0" />
+                    {warning}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <label className="text-sm font-medium text-gray-700">
+                Title
+                <input
+                  value={draft.title}
+                  onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                  className="mt-1 w-full p-2 border border-gray-300 rounded-md bg-white font-normal focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+              <label className="text-sm font-medium text-gray-700">
+                Author
+                <input
+                  value={author}
+                  onChange={(e) => setAuthor(e.target.value)}
+                  placeholder="Unknown"
+                  className="mt-1 w-full p-2 border border-gray-300 rounded-md bg-white font-normal focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold text-slate-700 mb-1">Sections</h3>
+              <ol className="text-sm text-gray-700 list-decimal list-inside max-h-32 overflow-y-auto">
+                {sections.map(section => <li key={section.id} className="truncate">{section.title}</li>)}
+              </ol>
+            </div>
+
+            <div>
+              <div className="flex border-b border-slate-200 mb-2" role="tablist">
+                {(['preview', 'markdown'] as const).map(name => (
+                  <button
+                    key={name}
+                    role="tab"
+                    aria-selected={tab === name}
+                    onClick={() => setTab(name)}
+                    className={`px-3 py-1.5 text-sm -mb-px border-b-2 ${tab === name ? 'border-blue-600 text-blue-700' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                  >
+                    {name === 'preview' ? 'Preview' : 'Edit markdown'}
+                  </button>
+                ))}
+              </div>
+              {tab === 'preview' ? (
+                <div className="prose max-w-none h-96 overflow-y-auto p-4 border border-slate-200 rounded-md bg-white" dangerouslySetInnerHTML={{ __html: html }} />
+              ) : (
+                <textarea
+                  value={draft.body}
+                  onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                  spellCheck={false}
+                  className="w-full h-96 p-3 border border-slate-200 rounded-md bg-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setDraft(null)}
+                disabled={saving}
+                className="py-2 px-4 rounded-md bg-slate-200 text-slate-700 hover:bg-slate-300 transition-colors disabled:opacity-50"
+              >
+                Discard
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving || !draft.body.trim()}
+                className="flex items-center bg-blue-600 text-white font-semibold py-2 px-4 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {saving && <Loader2 size={16} className="animate-spin mr-2" />}
+                Save to library
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DocumentImport;
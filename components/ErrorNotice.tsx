@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { AlertCircle, RotateCcw, WifiOff } from 'lucide-react';
+import { LlmError } from '../services/llmErrors';
+import type { LlmErrorKind } from '../types';
+
+interface ErrorNoticeProps {
+  error: Error;
+  onRetry?: () => void; // Omit when there is nothing to retry
+  className?: string;
+}
+
+const TITLES: Record<LlmErrorKind, string> = {
+  auth: 'Model not configured',
+  rate_limited: 'Too many requests',
+  quota: 'Quota exceeded',
+  offline: 'You are offline',
+  safety: 'Response blocked',
+  malformed: 'Unexpected response',
+  unavailable: 'Service unavailable',
+  unknown: 'Something went wrong',
+};
+
+// Component for explaining why a model request failed, with a button to try it again
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry, className = '' }) => {
+  const kind: LlmErrorKind = error instanceof LlmError ? error.kind : 'unknown';
+  // Retrying cannot fix a missing or rejected key, which is set at build time.
+  const canRetry = onRetry && kind !== 'auth';
+  const Icon = kind === 'offline' ? WifiOff : AlertCircle;
+
+  return (
+    <div role="alert" className={`p-3 border border-red-200 bg-red-50 rounded-md text-sm text-red-700 text-left ${className}`}>
+      <p className="flex items-center font-semibold">
+        <Icon size={14} className="mr-1 flex-shrink-0" />
+        {TITLES[kind]}
+      </p>
+      <p className="mt-1 whitespace-pre-line">{error.message}</p>
+      {canRetry && (
+        <button onClick={onRetry} className="flex items-center mt-2 text-blue-600 hover:text-blue-800">
+          <RotateCcw size={14} className="mr-1" />
+          Retry
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorNotice;
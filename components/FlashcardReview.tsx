@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef } from 'react';
+import { needsRepeat, reviewCard } from '../services/flashcardService';
+import type { Flashcard, ReviewGrade } from '../types';
+
+interface FlashcardReviewProps {
+  cards: Flashcard[];
+  sectionTitles: Record<string, string>;
+  onReview: (card: Flashcard) => void;
+  onFinish: () => void;
+}
+
+const GRADES: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 1, label: 'Again', className: 'bg-red-600 hover:bg-red-700' },
+  { grade: 3, label: 'Hard', className: 'bg-amber-600 hover:bg-amber-700' },
+  { grade: 4, label: 'Good', className: 'bg-green-600 hover:bg-green-700' },
+  { grade: 5, label: 'Easy', className: 'bg-blue-600 hover:bg-blue-700' },
+];
+
+// Component for working through a review queue one card at a time
+const FlashcardReview: React.FC<FlashcardReviewProps> = ({ cards, sectionTitles, onReview, onFinish }) => {
+  const [queue, setQueue] = useState(cards);
+  const [revealed, setRevealed] = useState(false);
+  const [reviewed, setReviewed] = useState(0);
+  const scheduled = useRef(new Set<string>()); // Cards whose next review is already set this session
+  const card = queue[0];
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!scheduled.current.has(card.id)) {
+      scheduled.current.add(card.id);
+      onReview(reviewCard(card, grade));
+      setReviewed(count => count + 1);
+    }
+    setRevealed(false);
+    // Cards not recalled well come back at the end of the session until they are.
+    setQueue(rest => needsRepeat(grade) ? [...rest.slice(1), card] : rest.slice(1));
+  };
+
+  // Space shows the answer; 1-4 pick a grade.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!card || (e.target as HTMLElement).closest('input, textarea, select')) return;
+      if (!revealed && e.key === ' ') {
+        e.preventDefault();
+        setRevealed(true);
+      } else if (revealed && GRADES[Number(e.key) - 1]) {
+        handleGrade(GRADES[Number(e.key) - 1].grade);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  if (!card) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-xl font-semibold text-gray-800">All done for today!</p>
+        <p className="text-gray-600 mt-1">You reviewed {reviewed} {reviewed === 1 ? 'card' : 'cards'}.</p>
+        <button onClick={onFinish} className="mt-4 bg-blue-600 text-white font-semibold py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">
+          Back to deck
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm text-gray-500 mb-2">
+        <span>{sectionTitles[card.sectionId] ?? 'Document'}</span>
+        <span>{queue.length} left</span>
+      </div>
+      <div className="min-h-[200px] p-6 border border-slate-200 rounded-md bg-white shadow-sm flex flex-col items-center justify-center text-center">
+        <p className="text-xl font-semibold text-gray-800">{card.front}</p>
+        {revealed && <p className="mt-4 pt-4 border-t border-slate-100 text-gray-700 w-full">{card.back}</p>}
+      </div>
+      <div className="mt-4 flex justify-center gap-2">
+        {revealed ? (
+          GRADES.map(({ grade, label, className }, index) => (
+            <button
+              key={grade}
+              onClick={() => handleGrade(grade)}
+              className={`${className} text-white font-semibold py-2 px-4 rounded-md transition-colors`}
+              title={`Press ${index + 1}`}
+            >
+              {label}
+            </button>
+          ))
+        ) : (
+          <button
+            onClick={() => setRevealed(true)}
+            className="bg-slate-700 text-white font-semibold py-2 px-6 rounded-md hover:bg-slate-800 transition-colors"
+            title="Press Space"
+          >
+            Show answer
+          </button>
+        )}
+      </div>
+      <div className="mt-4 text-center">
+        <button onClick={onFinish} className="text-sm text-gray-500 hover:text-gray-700">End session</button>
+      </div>
+    </div>
+  );
+};
+
+export default FlashcardReview;
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useMemo } from 'react';
+import { Loader2, RefreshCw, Sparkles } from 'lucide-react';
+import FlashcardReview from './FlashcardReview';
+import ErrorNotice from './ErrorNotice';
+import { generateFlashcards } from '../services/geminiService';
+import { parseSections } from '../services/documentParser';
+import type { OutlineNode } from '../services/documentParser';
+import { loadDeck, replaceSectionCards, saveCard, dailyQueue, toDay } from '../services/flashcardService';
+import type { Document, Flashcard } from '../types';
+
+interface FlashcardsProps {
+  document: Document;
+}
+
+// Component for a spaced-repetition flashcard deck generated from the document's sections
+const Flashcards: React.FC<FlashcardsProps> = ({ document }) => {
+  const sections = useMemo(() => parseSections(document.body), [document.body]);
+  const sectionTitles = useMemo(
+    () => Object.fromEntries(sections.map(section => [section.id, section.title])),
+    [sections]
+  );
+  const [deck, setDeck] = useState<Flashcard[]>(() => loadDeck(document.id));
+  const [generating, setGenerating] = useState<Record<string, boolean>>({});
+  const [errors, setErrors] = useState<Record<string, Error | undefined>>({});
+  const [session, setSession] = useState<Flashcard[] | null>(null);
+
+  const queue = useMemo(() => dailyQueue(deck, sections.map(section => section.id)), [deck, sections]);
+  const today = toDay();
+
+  const generateSection = async (section: OutlineNode) => {
+    setGenerating(prev => ({ ...prev, [section.id]: true }));
+    setErrors(prev => ({ ...prev, [section.id]: undefined }));
+    try {
+      const cards = await generateFlashcards(section.title, section.content);
+      setDeck(replaceSectionCards(document.id, section.id, cards));
+    } catch (error: any) {
+      setErrors(prev => ({ ...prev, [section.id]: error }));
+    } finally {
+      setGenerating(prev => ({ ...prev, [section.id]: false }));
+    }
+  };
+
+  // Sections are generated one at a time to stay well within rate limits.
+  const generateMissing = async () => {
+    for (const section of sections) {
+      if (!deck.some(card => card.sectionId === section.id)) await generateSection(section);
+    }
+  };
+
+  const handleReview = (card: Flashcard) => {
+    saveCard(card);
+    setDeck(prev => prev.map(stored => stored.id === card.id ? card : stored));
+  };
+
+  const isGenerating = Object.values(generating).some(Boolean);
+
+  return (
+    <div className="p-4 md:p-8 flex flex-col items-center">
+      <div className="w-full max-w-2xl bg-gray-50 rounded-lg shadow-lg p-6">
+        <h2 className="text-2xl font-semibold text-gray-800 mb-4 text-center">Flashcards</h2>
+
+        {session ? (
+          <FlashcardReview
+            cards={session}
+            sectionTitles={sectionTitles}
+            onReview={handleReview}
+            onFinish={() => setSession(null)}
+          />
+        ) : (
+          <>
+            <div className="mb-6 p-4 border border-slate-200 rounded-md bg-white text-center">
+              <p className="text-lg text-gray-800">
+                <span className="font-bold">{queue.length}</span> {queue.length === 1 ? 'card' : 'cards'} to review today
+              </p>
+              <p className="text-sm text-gray-500">
+                {queue.filter(card => !card.introduced).length} new · {queue.filter(card => card.introduced).length} due · {deck.length} in deck
+              </p>
+              <button
+                onClick={() => setSession(queue)}
+                disabled={queue.length === 0}
+                className="mt-3 bg-blue-600 text-white font-semibold py-2 px-6 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                Start review
+              </button>
+            </div>
+
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="text-lg font-semibold text-slate-700">Sections</h3>
+              <button
+                onClick={generateMissing}
+                disabled={isGenerating || sections.every(section => deck.some(card => card.sectionId === section.id))}
+                className="flex items-center text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+              >
+                <Sparkles size={14} className="mr-1" />
+                Generate all missing
+              </button>
+            </div>
+            <ul className="space-y-2">
+              {sections.map(section => {
+                const cards = deck.filter(card => card.sectionId === section.id);
+                const due = cards.filter(card => card.introduced && card.due <= today).length;
+                return (
+                  <li key={section.id} className="p-3 border border-slate-200 rounded-md bg-white">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-800 truncate" title={section.title}>{section.title}</p>
+                        <p className="text-xs text-gray-500">
+                          {cards.length === 0 ? 'No cards yet' : `${cards.length} cards · ${due} due`}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => generateSection(section)}
+                        disabled={generating[section.id]}
+                        className="flex items-center flex-shrink-0 text-sm px-3 py-1 rounded-md bg-slate-200 text-slate-700 hover:bg-slate-300 disabled:opacity-50"
+                        title={cards.length > 0 ? 'Replaces these cards and their review progress' : undefined}
+                      >
+                        {generating[section.id]
+                          ? <Loader2 size={14} className="animate-spin mr-1" />
+                          : cards.length > 0 ? <RefreshCw size={14} className="mr-1" /> : <Sparkles size={14} className="mr-1" />}
+                        {cards.length > 0 ? 'Regenerate' : 'Generate'}
+                      </button>
+                    </div>
+                    {errors[section.id] && <ErrorNotice error={errors[section.id]!} onRetry={() => generateSection(section)} className="mt-2" />}
+                  </li>
+                );
+              })}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Flashcards;
@@ -0,0 +1,337 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { StickyNote, X } from 'lucide-react';
+import TableOfContents from './TableOfContents';
+import HighlightToolbar from './HighlightToolbar';
+import NotesPanel from './NotesPanel';
+import { parseOutline, flattenOutline, renderDocument } from '../services/documentParser';
+import { createMatcher } from '../services/searchService';
+import type { SearchIndex } from '../services/searchService';
+import { highlightRanges, highlightText, highlightSpan, clearHighlights, flattenText, flatOffset } from '../services/domHighlighter';
+import {
+  HIGHLIGHT_COLORS,
+  loadAnnotations,
+  saveAnnotation,
+  deleteAnnotation,
+  createTextQuote,
+  locateTextQuote,
+} from '../services/annotationService';
+import { linkGlossaryTerms } from '../services/glossaryService';
+import type { Annotation, Document, GlossaryTerm, HighlightColor, TextQuote } from '../types';
+
+interface FullReportProps {
+  document: Document;
+  searchTerm: string;
+  searchIndex: SearchIndex;
+  section?: string; // Anchor to scroll to, taken from the URL
+  quote?: string; // Passage to highlight and scroll to, e.g. from an answer's citation
+  glossaryTerms: GlossaryTerm[]; // Linked wherever they are mentioned
+  onSectionSelect: (id: string) => void;
+  onAskAboutSelection?: (passage: string, anchor: string) => void;
+}
+
+// Height of the sticky app header, so anchors are not scrolled underneath it.
+const headerOffset = () => (window.document.querySelector('header')?.getBoundingClientRect().height ?? 0) + 16;
+
+// A text selection in the article that can be turned into an annotation.
+interface PendingSelection {
+  quote: TextQuote;
+  text: string; // The selection as the reader sees it
+  anchor: string;
+  top: number; // Position of the toolbar within the article
+  left: number;
+}
+
+const ACTIVE_MARK_CLASSES = ['ring-2', 'ring-blue-400'];
+
+// Component for displaying the full report
+const FullReport: React.FC<FullReportProps> = ({ document, searchTerm, searchIndex, section, quote, glossaryTerms, onSectionSelect, onAskAboutSelection }) => {
+  const outline = useMemo(() => parseOutline(document.body), [document.body]);
+  const html = useMemo(() => renderDocument(document.body), [document.body]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [tocTop, setTocTop] = useState(0);
+  const [annotations, setAnnotations] = useState<Annotation[]>(() => loadAnnotations(document.id));
+  const [positions, setPositions] = useState<Record<string, number | null>>({});
+  const [activeAnnotationId, setActiveAnnotationId] = useState<string | null>(null);
+  const [selection, setSelection] = useState<PendingSelection | null>(null);
+  const [notesOpen, setNotesOpen] = useState(false);
+  const articleRef = useRef<HTMLDivElement>(null);
+
+  // Tracks the last heading or concept scrolled past the header as the current section.
+  useEffect(() => {
+    const anchors = flattenOutline(outline).map(node => node.id);
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const offset = headerOffset();
+      setTocTop(offset);
+      let current: string | null = anchors[0] ?? null;
+      for (const id of anchors) {
+        const element = articleRef.current?.querySelector(`[id="${id}"]`);
+        if (element && element.getBoundingClientRect().top <= offset + 1) current = id;
+      }
+      setActiveId(current);
+    };
+    const onScroll = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+    update();
+    window.addEventListener('scroll', onScroll, { passive: true });
+    window.addEventListener('resize', onScroll);
+    return () => {
+      window.removeEventListener('scroll', onScroll);
+      window.removeEventListener('resize', onScroll);
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [outline]);
+
+  const scrollToAnchor = (id: string) => {
+    const element = articleRef.current?.querySelector(`[id="${id}"]`);
+    if (!element) return;
+    window.scrollTo({ top: element.getBoundingClientRect().top + window.scrollY - headerOffset(), behavior: 'smooth' });
+    setActiveId(id);
+  };
+
+  // Scrolls to the linked section, or to the quoted passage when there is one.
+  useEffect(() => {
+    const article = articleRef.current;
+    if (!article) return;
+    clearHighlights(article, 'quote');
+    const marks = quote ? highlightText(article, quote, 'quote', 'bg-green-200 rounded-sm') : [];
+    if (marks.length > 0) {
+      window.scrollTo({ top: marks[0].getBoundingClientRect().top + window.scrollY - headerOffset() - 48, behavior: 'smooth' });
+      if (section) setActiveId(section);
+    } else if (section) {
+      scrollToAnchor(section);
+    }
+  }, [section, quote, html]);
+
+  // Selecting the section already in the URL does not change the route, so scroll directly.
+  const handleSelect = (id: string) => {
+    if (id === section) scrollToAnchor(id);
+    else onSectionSelect(id);
+  };
+
+  // Highlights search matches on the rendered text nodes.
+  useEffect(() => {
+    const article = articleRef.current;
+    if (!article) return;
+    clearHighlights(article, 'search');
+    if (searchTerm.trim()) {
+      highlightRanges(article, createMatcher(searchIndex, searchTerm), 'search', 'bg-yellow-300 font-bold');
+    }
+  }, [html, searchTerm, searchIndex]);
+
+  // Links glossary terms to the definition card.
+  useEffect(() => {
+    if (articleRef.current) linkGlossaryTerms(articleRef.current, glossaryTerms);
+  }, [html, glossaryTerms]);
+
+  // Draws every annotation that can still be found. The page is flattened again for each one
+  // because marking a passage splits the text nodes the previous flattening pointed into.
+  useEffect(() => {
+    const article = articleRef.current;
+    if (!article) return;
+    clearHighlights(article, 'note');
+    const found: Record<string, number | null> = {};
+    for (const annotation of annotations) {
+      const flat = flattenText(article);
+      const span = locateTextQuote(flat.text, annotation.quote);
+      found[annotation.id] = span ? span[0] : null;
+      if (span) {
+        highlightSpan(flat, span[0], span[1], 'note', `${HIGHLIGHT_COLORS[annotation.color].className} cursor-pointer`, annotation.id);
+      }
+    }
+    setPositions(found);
+  }, [html, annotations]);
+
+  useEffect(() => {
+    articleRef.current?.querySelectorAll<HTMLElement>('mark[data-highlight="note"]').forEach(mark => {
+      mark.classList.toggle(ACTIVE_MARK_CLASSES[0], mark.dataset.highlightId === activeAnnotationId);
+      mark.classList.toggle(ACTIVE_MARK_CLASSES[1], mark.dataset.highlightId === activeAnnotationId);
+    });
+  }, [activeAnnotationId, positions]);
+
+  useEffect(() => {
+    const onSelectionChange = () => {
+      if (window.getSelection()?.isCollapsed) setSelection(null);
+    };
+    window.document.addEventListener('selectionchange', onSelectionChange);
+    return () => window.document.removeEventListener('selectionchange', onSelectionChange);
+  }, []);
+
+  // Offers the highlight toolbar for a non-empty selection inside the article.
+  const handleSelectionEnd = () => {
+    const article = articleRef.current;
+    const current = window.getSelection();
+    if (!article || !current || current.isCollapsed || current.rangeCount === 0) {
+      setSelection(null);
+      return;
+    }
+    const range = current.getRangeAt(0);
+    if (!article.contains(range.commonAncestorContainer)) {
+      setSelection(null);
+      return;
+    }
+    const flat = flattenText(article);
+    let start = flatOffset(flat, range.startContainer, range.startOffset);
+    let end = flatOffset(flat, range.endContainer, range.endOffset);
+    while (start < end && flat.text[start] === ' ') start++;
+    while (end > start && flat.text[end - 1] === ' ') end--;
+    if (end <= start) {
+      setSelection(null);
+      return;
+    }
+    // The passage belongs to the last heading or concept that starts before it.
+    let anchor = '';
+    article.querySelectorAll('[id]').forEach(element => {
+      if (element === range.startContainer || element.compareDocumentPosition(range.startContainer) & (Node.DOCUMENT_POSITION_FOLLOWING | Node.DOCUMENT_POSITION_CONTAINED_BY)) {
+        anchor = element.id;
+      }
+    });
+    const rect = range.getBoundingClientRect();
+    const articleRect = article.getBoundingClientRect();
+    setSelection({
+      quote: createTextQuote(flat.text, start, end, flat.positions.slice(start, end).map(({ node, offset }) => node.data[offset]).join('')),
+      text: range.toString().replace(/\s+/g, ' ').trim(),
+      anchor,
+      top: rect.top - articleRect.top - 48,
+      left: rect.left - articleRect.left + rect.width / 2,
+    });
+  };
+
+  const addAnnotation = (color: HighlightColor, withNote: boolean) => {
+    if (!selection) return;
+    const now = new Date().toISOString();
+    const annotation: Annotation = {
+      id: crypto.randomUUID(),
+      documentId: document.id,
+      anchor: selection.anchor,
+      quote: selection.quote,
+      color,
+      note: '',
+      createdAt: now,
+      updatedAt: now,
+    };
+    saveAnnotation(annotation);
+    setAnnotations(prev => [...prev, annotation]);
+    setSelection(null);
+    window.getSelection()?.removeAllRanges();
+    if (withNote) {
+      setActiveAnnotationId(annotation.id);
+      setNotesOpen(true);
+    }
+  };
+
+  const updateAnnotation = (annotation: Annotation) => {
+    saveAnnotation(annotation);
+    setAnnotations(prev => prev.map(existing => existing.id === annotation.id ? annotation : existing));
+  };
+
+  const removeAnnotation = (id: string) => {
+    deleteAnnotation(id);
+    setAnnotations(prev => prev.filter(annotation => annotation.id !== id));
+    setActiveAnnotationId(null);
+  };
+
+  const showAnnotation = (id: string) => {
+    setActiveAnnotationId(id);
+    const mark = articleRef.current?.querySelector(`mark[data-highlight-id="${id}"]`);
+    if (mark) window.scrollTo({ top: mark.getBoundingClientRect().top + window.scrollY - headerOffset() - 48, behavior: 'smooth' });
+  };
+
+  // Right-clicking a selection offers the same actions in place of the browser's menu.
+  const handleContextMenu = (e: React.MouseEvent) => {
+    if (window.getSelection()?.isCollapsed) return;
+    e.preventDefault();
+    handleSelectionEnd();
+  };
+
+  // Clicking a highlight opens its note.
+  const handleArticleClick = (e: React.MouseEvent) => {
+    const mark = (e.target as HTMLElement).closest<HTMLElement>('mark[data-highlight="note"]');
+    if (mark?.dataset.highlightId && window.getSelection()?.isCollapsed) {
+      setActiveAnnotationId(mark.dataset.highlightId);
+      setNotesOpen(true);
+    }
+  };
+
+  const notesPanel = (
+    <NotesPanel
+      document={document}
+      annotations={annotations}
+      positions={positions}
+      activeId={activeAnnotationId}
+      onSelect={showAnnotation}
+      onChange={updateAnnotation}
+      onDelete={removeAnnotation}
+    />
+  );
+
+  return (
+    <div className="flex justify-center gap-6 p-4 md:p-8">
+      {outline.length > 0 && (
+        <aside
+          className="hidden lg:block w-64 flex-shrink-0 sticky self-start overflow-y-auto bg-white rounded-lg shadow-sm p-3"
+          style={{ top: tocTop, maxHeight: `calc(100vh - ${tocTop + 16}px)` }}
+        >
+          <TableOfContents outline={outline} activeId={activeId} onSelect={handleSelect} />
+        </aside>
+      )}
+      <div className="relative min-w-0 max-w-3xl flex-1">
+        {selection && (
+          <HighlightToolbar
+            top={selection.top}
+            left={selection.left}
+            onHighlight={(color) => addAnnotation(color, false)}
+            onAddNote={() => addAnnotation('yellow', true)}
+            onAsk={onAskAboutSelection && (() => onAskAboutSelection(selection.text, selection.anchor))}
+          />
+        )}
+        <div
+          ref={articleRef}
+          className="prose prose-lg max-w-3xl"
+          onMouseUp={handleSelectionEnd}
+          onKeyUp={handleSelectionEnd}
+          onContextMenu={handleContextMenu}
+          onClick={handleArticleClick}
+        >
+          <div dangerouslySetInnerHTML={{ __html: html }} />
+        </div>
+      </div>
+      <aside
+        className="hidden xl:flex flex-col w-72 flex-shrink-0 sticky self-start bg-white rounded-lg shadow-sm p-3"
+        style={{ top: tocTop, maxHeight: `calc(100vh - ${tocTop + 16}px)` }}
+      >
+        {notesPanel}
+      </aside>
+
+      {/* Below the xl breakpoint the notes open as a bottom sheet. */}
+      <button
+        onClick={() => setNotesOpen(true)}
+        className="xl:hidden fixed bottom-4 right-4 z-20 flex items-center px-4 py-2 rounded-full bg-blue-600 text-white shadow-lg hover:bg-blue-700"
+      >
+        <StickyNote size={16} className="mr-1" />
+        Notes ({annotations.length})
+      </button>
+      {notesOpen && (
+        <div className="xl:hidden fixed inset-x-0 bottom-0 z-30 max-h-[60vh] flex flex-col bg-white rounded-t-lg shadow-2xl p-4 pt-10">
+          <button
+            onClick={() => setNotesOpen(false)}
+            className="absolute top-3 right-3 p-1 text-gray-500 hover:text-gray-800"
+            aria-label="Close notes"
+          >
+            <X size={18} />
+          </button>
+          {notesPanel}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FullReport;
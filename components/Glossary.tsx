@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useMemo } from 'react';
+import { Loader2, RefreshCw, BookOpen, MessageSquare, AlertTriangle, Search } from 'lucide-react';
+import ConceptGraph from './ConceptGraph';
+import ErrorNotice from './ErrorNotice';
+import { extractGlossary } from '../services/geminiService';
+import { saveGlossary } from '../services/glossaryService';
+import { parseOutline, flattenOutline } from '../services/documentParser';
+import type { Document, Glossary as GlossaryData, GlossaryTerm } from '../types';
+
+interface GlossaryProps {
+  document: Document;
+  glossary: GlossaryData | null;
+  selectedTermId?: string;
+  onChange: (glossary: GlossaryData) => void;
+  onSelectTerm: (id: string) => void;
+  onReadInReport: (term: GlossaryTerm) => void;
+  onAsk: (question: string) => void;
+}
+
+// Component for the concept glossary of a document and the graph of how its concepts relate
+const Glossary: React.FC<GlossaryProps> = ({ document, glossary, selectedTermId, onChange, onSelectTerm, onReadInReport, onAsk }) => {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [filter, setFilter] = useState('');
+  const sectionTitles = useMemo(
+    () => new Map(flattenOutline(parseOutline(document.body)).map(node => [node.id, node.title])),
+    [document.body]
+  );
+
+  const terms = useMemo(
+    () => [...(glossary?.terms ?? [])].sort((a, b) => a.term.replace(/^the /i, '').localeCompare(b.term.replace(/^the /i, ''))),
+    [glossary]
+  );
+  const visibleTerms = terms.filter(term =>
+    [term.term, ...term.aliases].some(name => name.toLowerCase().includes(filter.trim().toLowerCase())));
+  const selected = terms.find(term => term.id === selectedTermId);
+  const termName = (id: string) => terms.find(term => term.id === id)?.term ?? id;
+
+  const handleGenerate = async (refresh = false) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const extracted = await extractGlossary(document, { refresh });
+      saveGlossary(extracted);
+      onChange(extracted);
+    } catch (e: any) {
+      setError(e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="p-4 md:p-8 flex flex-col items-center">
+      <div className="w-full max-w-4xl bg-gray-50 rounded-lg shadow-lg p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-semibold text-gray-800">Glossary</h2>
+          {glossary && (
+            <button
+              onClick={() => handleGenerate(true)}
+              disabled={loading}
+              className="flex items-center text-sm text-slate-600 hover:text-slate-800 disabled:opacity-50"
+            >
+              {loading ? <Loader2 size={14} className="mr-1 animate-spin" /> : <RefreshCw size={14} className="mr-1" />}
+              Rebuild
+            </button>
+          )}
+        </div>
+
+        {error && !loading && <ErrorNotice error={error} onRetry={() => handleGenerate(!!glossary)} className="mb-4" />}
+
+        {glossary && glossary.revision !== document.revision && (
+          <p className="flex items-center mb-4 text-sm text-amber-700">
+            <AlertTriangle size={14} className="mr-1 flex-shrink-0" />
+            The document has changed since this glossary was built. Rebuild it to pick up the changes.
+          </p>
+        )}
+
+        {!glossary ? (
+          <div className="text-center py-8">
+            <p className="text-gray-600 mb-3">
+              Extract the named concepts in "{document.title}" and how they relate. Once built, terms are linked
+              wherever they appear in the report and in answers.
+            </p>
+            <button
+              onClick={() => handleGenerate()}
+              disabled={loading}
+              className="inline-flex items-center bg-blue-600 text-white font-semibold py-2 px-4 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {loading && <Loader2 size={16} className="mr-2 animate-spin" />}
+              Build glossary
+            </button>
+          </div>
+        ) : (
+          <>
+            <ConceptGraph terms={terms} relations={glossary.relations} selectedId={selectedTermId} onSelect={onSelectTerm} />
+            <p className="mt-1 mb-4 text-xs text-gray-500">
+              {terms.length} concepts and {glossary.relations.length} relations. Drag a concept to move it; click it for details.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="md:col-span-1">
+                <div className="relative mb-2">
+                  <input
+                    type="text"
+                    value={filter}
+                    onChange={(e) => setFilter(e.target.value)}
+                    placeholder="Filter terms..."
+                    className="w-full p-2 pl-8 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-500" />
+                </div>
+                <ul className="max-h-80 overflow-y-auto space-y-0.5">
+                  {visibleTerms.map(term => (
+                    <li key={term.id}>
+                      <button
+                        onClick={() => onSelectTerm(term.id)}
+                        className={`w-full text-left px-2 py-1 rounded-md text-sm ${term.id === selectedTermId ? 'bg-blue-600 text-white' : 'text-slate-700 hover:bg-slate-200'}`}
+                      >
+                        {term.term}
+                      </button>
+                    </li>
+                  ))}
+                  {visibleTerms.length === 0 && <li className="px-2 text-sm text-gray-500">No matching terms.</li>}
+                </ul>
+              </div>
+
+              <div className="md:col-span-2 bg-white rounded-lg border border-slate-200 p-4">
+                {selected ? (
+                  <>
+                    <h3 className="text-xl font-bold text-slate-800">{selected.term}</h3>
+                    {selected.aliases.length > 0 && <p className="text-sm text-gray-500">Also: {selected.aliases.join(', ')}</p>}
+                    <p className="mt-2 text-gray-700">{selected.definition}</p>
+                    {selected.quote && (
+                      <blockquote className="mt-3 pl-3 border-l-4 border-slate-300 text-sm italic text-gray-600">
+                        “{selected.quote}”
+                      </blockquote>
+                    )}
+                    {selected.anchor && (
+                      <p className="mt-2 text-xs text-gray-500">Defined in: {sectionTitles.get(selected.anchor) ?? selected.anchor}</p>
+                    )}
+
+                    {glossary.relations.some(relation => relation.source === selected.id || relation.target === selected.id) && (
+                      <>
+                        <h4 className="mt-4 mb-1 text-sm font-semibold text-slate-700">Related concepts</h4>
+                        <ul className="space-y-1 text-sm">
+                          {glossary.relations
+                            .filter(relation => relation.source === selected.id || relation.target === selected.id)
+                            .map(relation => {
+                              const otherId = relation.source === selected.id ? relation.target : relation.source;
+                              return (
+                                <li key={`${relation.source}-${relation.target}`} className="text-gray-700">
+                                  {relation.source === selected.id ? (
+                                    <>{selected.term} <span className="text-gray-500">{relation.label}</span> </>
+                                  ) : null}
+                                  <button onClick={() => onSelectTerm(otherId)} className="text-blue-600 hover:underline">
+                                    {termName(otherId)}
+                                  </button>
+                                  {relation.target === selected.id ? (
+                                    <> <span className="text-gray-500">{relation.label}</span> {selected.term}</>
+                                  ) : null}
+                                </li>
+                              );
+                            })}
+                        </ul>
+                      </>
+                    )}
+
+                    <div className="flex gap-4 mt-4">
+                      {selected.anchor && (
+                        <button onClick={() => onReadInReport(selected)} className="flex items-center text-sm text-blue-600 hover:text-blue-800">
+                          <BookOpen size={14} className="mr-1" />
+                          Read in report
+                        </button>
+                      )}
+                      <button onClick={() => onAsk(`What is ${selected.term}?`)} className="flex items-center text-sm text-blue-600 hover:text-blue-800">
+                        <MessageSquare size={14} className="mr-1" />
+                        Ask about it
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-500">Select a concept in the graph or the list to see its definition.</p>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Glossary;
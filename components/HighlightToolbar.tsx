@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { StickyNote, MessageCircleQuestion } from 'lucide-react';
+import { HIGHLIGHT_COLORS } from '../services/annotationService';
+import type { HighlightColor } from '../types';
+
+interface HighlightToolbarProps {
+  top: number;
+  left: number;
+  onHighlight: (color: HighlightColor) => void;
+  onAddNote: () => void;
+  onAsk?: () => void;
+}
+
+// Component for the actions offered above a text selection in the report
+const HighlightToolbar: React.FC<HighlightToolbarProps> = ({ top, left, onHighlight, onAddNote, onAsk }) => (
+  <div
+    role="toolbar"
+    aria-label="Selection actions"
+    className="absolute z-20 -translate-x-1/2 flex items-center gap-1 p-1.5 bg-slate-800 rounded-lg shadow-lg"
+    style={{ top, left }}
+    // Keeps the selection alive while a button is pressed.
+    onMouseDown={(e) => e.preventDefault()}
+  >
+    {(Object.keys(HIGHLIGHT_COLORS) as HighlightColor[]).map(color => (
+      <button
+        key={color}
+        onClick={() => onHighlight(color)}
+        className={`w-6 h-6 rounded-full ${HIGHLIGHT_COLORS[color].swatch} hover:ring-2 hover:ring-white transition-shadow`}
+        aria-label={`Highlight ${HIGHLIGHT_COLORS[color].label.toLowerCase()}`}
+        title={HIGHLIGHT_COLORS[color].label}
+      />
+    ))}
+    <button
+      onClick={onAddNote}
+      className="flex items-center ml-1 px-2 py-1 text-sm text-white rounded-md hover:bg-white/10"
+    >
+      <StickyNote size={14} className="mr-1" />
+      Note
+    </button>
+    {onAsk && (
+      <button
+        onClick={onAsk}
+        className="flex items-center px-2 py-1 text-sm text-white rounded-md hover:bg-white/10"
+      >
+        <MessageCircleQuestion size={14} className="mr-1" />
+        Ask about this
+      </button>
+    )}
+  </div>
+);
+
+export default HighlightToolbar;
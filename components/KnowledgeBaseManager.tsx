@@ -3,66 +3,253 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState } from 'react';
-import { Plus, Trash2, ChevronDown, X } from 'lucide-react';
-import { URLGroup } from '../types';
+import React, { useState, useRef } from 'react';
+import { Plus, Trash2, ChevronDown, X, Check, Pencil, Copy, FolderPlus, GripVertical, Upload, Download, StickyNote } from 'lucide-react';
+import { SourceUrl, URLGroup } from '../types';
+import {
+  MAX_URLS_PER_GROUP,
+  isValidUrl,
+  parseTags,
+  createGroup,
+  duplicateGroup,
+  exportUrlGroups,
+  parseUrlGroupImport,
+} from '../services/urlGroupStore';
 
 interface KnowledgeBaseManagerProps {
-  urls: string[];
-  onAddUrl: (url: string) => void;
-  onRemoveUrl: (url: string) => void;
   maxUrls?: number;
   urlGroups: URLGroup[];
   activeUrlGroupId: string;
   onSetGroupId: (id: string) => void;
+  onChangeGroups: (groups: URLGroup[]) => void;
   onCloseSidebar?: () => void;
 }
 
-const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({ 
-  urls, 
-  onAddUrl, 
-  onRemoveUrl, 
-  maxUrls = 20,
+interface UrlItemProps {
+  source: SourceUrl;
+  onChange: (source: SourceUrl) => void;
+  onRemove: () => void;
+  onMove: (offset: number) => void;
+}
+
+const iconButtonClass = 'p-1 text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10 transition-colors disabled:opacity-40 disabled:hover:bg-transparent';
+const inputClass = 'border border-[rgba(255,255,255,0.1)] bg-[#2C2C2C] text-[#E2E2E2] placeholder-[#777777] rounded-md focus:ring-1 focus:ring-white/20 focus:border-white/20 text-sm';
+
+// One URL in the active group, with its note and tags. Alt+Arrow keys on the handle reorder it.
+const UrlItem: React.FC<UrlItemProps> = ({ source, onChange, onRemove, onMove }) => {
+  const [editing, setEditing] = useState(false);
+  const [note, setNote] = useState(source.note ?? '');
+  const [tags, setTags] = useState(source.tags.join(', '));
+
+  const startEditing = () => {
+    setNote(source.note ?? '');
+    setTags(source.tags.join(', '));
+    setEditing(true);
+  };
+
+  const saveNotes = () => {
+    onChange({ ...source, note: note.trim() || undefined, tags: parseTags(tags) });
+    setEditing(false);
+  };
+
+  return (
+    <div className="p-2.5 bg-[#2C2C2C] border border-[rgba(255,255,255,0.05)] rounded-lg hover:shadow-sm transition-shadow">
+      <div className="flex items-center">
+        <button
+          className="p-0.5 mr-1 text-[#777777] hover:text-[#A8ABB4] cursor-grab flex-shrink-0"
+          aria-label={`Reorder ${source.url}. Drag, or press Alt+Arrow Up or Down`}
+          onKeyDown={(e) => {
+            if (!e.altKey || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown')) return;
+            e.preventDefault();
+            onMove(e.key === 'ArrowUp' ? -1 : 1);
+          }}
+        >
+          <GripVertical size={14} />
+        </button>
+        <a href={source.url} target="_blank" rel="noopener noreferrer" className="flex-grow text-xs text-[#79B8FF] hover:underline truncate" title={source.url}>
+          {source.url}
+        </a>
+        <button onClick={() => editing ? setEditing(false) : startEditing()} className={`${iconButtonClass} flex-shrink-0 ml-2`} aria-label={`Edit notes for ${source.url}`}>
+          <StickyNote size={16} />
+        </button>
+        <button
+          onClick={onRemove}
+          className="p-1 text-[#A8ABB4] hover:text-[#f87171] rounded-md hover:bg-[rgba(255,0,0,0.1)] transition-colors flex-shrink-0"
+          aria-label={`Remove ${source.url}`}
+        >
+          <Trash2 size={16} />
+        </button>
+      </div>
+
+      {editing ? (
+        <div className="mt-2 space-y-1.5">
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Why is this page in the group?"
+            rows={2}
+            className={`w-full py-1 px-2 ${inputClass}`}
+          />
+          <input
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && saveNotes()}
+            placeholder="Tags, separated by commas"
+            className={`w-full h-7 px-2 ${inputClass}`}
+          />
+          <div className="flex justify-end gap-1">
+            <button onClick={() => setEditing(false)} className="text-xs px-2 py-1 text-[#A8ABB4] hover:text-white">Cancel</button>
+            <button onClick={saveNotes} className="text-xs px-2 py-1 rounded-md bg-white/[.12] hover:bg-white/20 text-white">Save</button>
+          </div>
+        </div>
+      ) : (source.note || source.tags.length > 0) && (
+        <div className="mt-1.5 ml-5">
+          {source.note && <p className="text-xs text-[#A8ABB4] whitespace-pre-wrap">{source.note}</p>}
+          {source.tags.length > 0 && (
+            <div className="mt-1 flex flex-wrap gap-1">
+              {source.tags.map(tag => (
+                <span key={tag} className="text-[10px] px-1.5 py-0.5 rounded-full bg-white/10 text-[#E2E2E2]">{tag}</span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({
+  maxUrls = MAX_URLS_PER_GROUP,
   urlGroups,
   activeUrlGroupId,
   onSetGroupId,
+  onChangeGroups,
   onCloseSidebar,
 }) => {
   const [currentUrlInput, setCurrentUrlInput] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [groupDraft, setGroupDraft] = useState<{ mode: 'create' | 'rename'; name: string } | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const isValidUrl = (urlString: string): boolean => {
-    try {
-      new URL(urlString);
-      return true;
-    } catch (e) {
-      return false;
-    }
+  const activeGroup = urlGroups.find(g => g.id === activeUrlGroupId) ?? urlGroups[0];
+  const urls = activeGroup.urls;
+
+  const showError = (message: string | null) => {
+    setError(message);
+    setNotice(null);
+  };
+
+  const updateActiveGroup = (update: (group: URLGroup) => URLGroup) => {
+    onChangeGroups(urlGroups.map(group => group.id === activeGroup.id ? update(group) : group));
+  };
+
+  const updateUrls = (update: (urls: SourceUrl[]) => SourceUrl[]) => {
+    updateActiveGroup(group => ({ ...group, urls: update(group.urls) }));
+  };
+
+  const moveUrl = (from: number, to: number) => {
+    if (to < 0 || to >= urls.length || from === to) return;
+    updateUrls(current => {
+      const next = [...current];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
   };
 
   const handleAddUrl = () => {
-    if (!currentUrlInput.trim()) {
-      setError('URL cannot be empty.');
+    const url = currentUrlInput.trim();
+    if (!url) {
+      showError('URL cannot be empty.');
       return;
     }
-    if (!isValidUrl(currentUrlInput)) {
-      setError('Invalid URL format. Please include http:// or https://');
+    if (!isValidUrl(url)) {
+      showError('Invalid URL format. Please include http:// or https://');
       return;
     }
     if (urls.length >= maxUrls) {
-      setError(`You can add a maximum of ${maxUrls} URLs to the current group.`);
+      showError(`You can add a maximum of ${maxUrls} URLs to the current group.`);
       return;
     }
-    if (urls.includes(currentUrlInput)) {
-      setError('This URL has already been added to the current group.');
+    if (urls.some(source => source.url === url)) {
+      showError('This URL has already been added to the current group.');
       return;
     }
-    onAddUrl(currentUrlInput);
+    updateUrls(current => [...current, { url, tags: [] }]);
     setCurrentUrlInput('');
-    setError(null);
+    showError(null);
+  };
+
+  const handleSaveGroupName = () => {
+    if (!groupDraft) return;
+    const name = groupDraft.name.trim();
+    if (!name) {
+      showError('Group name cannot be empty.');
+      return;
+    }
+    if (urlGroups.some(group => group.name === name && (groupDraft.mode === 'create' || group.id !== activeGroup.id))) {
+      showError(`A group named "${name}" already exists.`);
+      return;
+    }
+    if (groupDraft.mode === 'create') {
+      const group = createGroup(name);
+      onChangeGroups([...urlGroups, group]);
+      onSetGroupId(group.id);
+    } else {
+      updateActiveGroup(group => ({ ...group, name }));
+    }
+    setGroupDraft(null);
+    showError(null);
+  };
+
+  const handleDuplicateGroup = () => {
+    const copy = duplicateGroup(activeGroup, urlGroups);
+    onChangeGroups([...urlGroups, copy]);
+    onSetGroupId(copy.id);
+  };
+
+  const handleDeleteGroup = () => {
+    if (urlGroups.length <= 1) return;
+    if (urls.length > 0 && !window.confirm(`Delete "${activeGroup.name}" and its ${urls.length} URLs?`)) return;
+    const remaining = urlGroups.filter(group => group.id !== activeGroup.id);
+    onChangeGroups(remaining);
+    onSetGroupId(remaining[0].id);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportUrlGroups(urlGroups)], { type: 'application/json' });
+    const href = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = href;
+    link.download = 'trillium-url-groups.json';
+    link.click();
+    URL.revokeObjectURL(href);
   };
 
-  const activeGroupName = urlGroups.find(g => g.id === activeUrlGroupId)?.name || "Unknown Group";
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { groups, skippedUrls } = parseUrlGroupImport(await file.text());
+      onChangeGroups([...urlGroups, ...groups]);
+      onSetGroupId(groups[0].id);
+      setError(null);
+      setNotice(`Imported ${groups.length} ${groups.length === 1 ? 'group' : 'groups'}`
+        + (skippedUrls > 0 ? `; skipped ${skippedUrls} invalid or duplicate ${skippedUrls === 1 ? 'URL' : 'URLs'}.` : '.'));
+    } catch (err: any) {
+      showError(err.message);
+    }
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) moveUrl(dragIndex, index);
+    setDragIndex(null);
+    setDropIndex(null);
+  };
 
   return (
     <div className="p-4 bg-[#1E1E1E] shadow-md rounded-xl h-full flex flex-col border border-[rgba(255,255,255,0.05)]">
@@ -78,29 +265,72 @@ const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({
           </button>
         )}
       </div>
-      
+
       <div className="mb-3">
         <label htmlFor="url-group-select-kb" className="block text-sm font-medium text-[#A8ABB4] mb-1">
           Active URL Group
         </label>
-        <div className="relative w-full">
-          <select
-            id="url-group-select-kb"
-            value={activeUrlGroupId}
-            onChange={(e) => onSetGroupId(e.target.value)}
-            className="w-full py-2 pl-3 pr-8 appearance-none border border-[rgba(255,255,255,0.1)] bg-[#2C2C2C] text-[#E2E2E2] rounded-md focus:ring-1 focus:ring-white/20 focus:border-white/20 text-sm"
-          >
-            {urlGroups.map(group => (
-              <option key={group.id} value={group.id}>
-                {group.name}
-              </option>
-            ))}
-          </select>
-          <ChevronDown
-            className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-[#A8ABB4] pointer-events-none"
-            aria-hidden="true"
-          />
-        </div>
+        {groupDraft ? (
+          <div className="flex items-center gap-1">
+            <input
+              autoFocus
+              value={groupDraft.name}
+              onChange={(e) => setGroupDraft({ ...groupDraft, name: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSaveGroupName();
+                if (e.key === 'Escape') setGroupDraft(null);
+              }}
+              placeholder="Group name"
+              aria-label={groupDraft.mode === 'create' ? 'New group name' : 'Rename group'}
+              className={`flex-grow h-9 px-3 ${inputClass}`}
+            />
+            <button onClick={handleSaveGroupName} className={iconButtonClass} aria-label="Save group name">
+              <Check size={16} />
+            </button>
+            <button onClick={() => setGroupDraft(null)} className={iconButtonClass} aria-label="Cancel">
+              <X size={16} />
+            </button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-1">
+            <div className="relative flex-grow">
+              <select
+                id="url-group-select-kb"
+                value={activeGroup.id}
+                onChange={(e) => onSetGroupId(e.target.value)}
+                className="w-full py-2 pl-3 pr-8 appearance-none border border-[rgba(255,255,255,0.1)] bg-[#2C2C2C] text-[#E2E2E2] rounded-md focus:ring-1 focus:ring-white/20 focus:border-white/20 text-sm"
+              >
+                {urlGroups.map(group => (
+                  <option key={group.id} value={group.id}>
+                    {group.name} ({group.urls.length})
+                  </option>
+                ))}
+              </select>
+              <ChevronDown
+                className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-[#A8ABB4] pointer-events-none"
+                aria-hidden="true"
+              />
+            </div>
+            <button onClick={() => setGroupDraft({ mode: 'create', name: '' })} className={iconButtonClass} aria-label="New group" title="New group">
+              <FolderPlus size={16} />
+            </button>
+            <button onClick={() => setGroupDraft({ mode: 'rename', name: activeGroup.name })} className={iconButtonClass} aria-label="Rename group" title="Rename group">
+              <Pencil size={16} />
+            </button>
+            <button onClick={handleDuplicateGroup} className={iconButtonClass} aria-label="Duplicate group" title="Duplicate group">
+              <Copy size={16} />
+            </button>
+            <button
+              onClick={handleDeleteGroup}
+              disabled={urlGroups.length <= 1}
+              className={iconButtonClass}
+              aria-label="Delete group"
+              title={urlGroups.length <= 1 ? 'The last group cannot be deleted' : 'Delete group'}
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        )}
       </div>
 
       <div className="flex items-center gap-2 mb-3">
@@ -122,27 +352,56 @@ const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({
         </button>
       </div>
       {error && <p className="text-xs text-[#f87171] mb-2">{error}</p>}
+      {notice && <p className="text-xs text-[#86efac] mb-2">{notice}</p>}
       {urls.length >= maxUrls && <p className="text-xs text-[#fbbf24] mb-2">Maximum {maxUrls} URLs reached for this group.</p>}
-      
+
       <div className="flex-grow overflow-y-auto space-y-2 chat-container">
         {urls.length === 0 && (
-          <p className="text-[#777777] text-center py-3 text-sm">Add documentation URLs to the group "{activeGroupName}" to start querying.</p>
+          <p className="text-[#777777] text-center py-3 text-sm">Add documentation URLs to the group "{activeGroup.name}" to start querying.</p>
         )}
-        {urls.map((url) => (
-          <div key={url} className="flex items-center justify-between p-2.5 bg-[#2C2C2C] border border-[rgba(255,255,255,0.05)] rounded-lg hover:shadow-sm transition-shadow">
-            <a href={url} target="_blank" rel="noopener noreferrer" className="text-xs text-[#79B8FF] hover:underline truncate" title={url}>
-              {url}
-            </a>
-            <button 
-              onClick={() => onRemoveUrl(url)}
-              className="p-1 text-[#A8ABB4] hover:text-[#f87171] rounded-md hover:bg-[rgba(255,0,0,0.1)] transition-colors flex-shrink-0 ml-2"
-              aria-label={`Remove ${url}`}
-            >
-              <Trash2 size={16} />
-            </button>
+        {urls.map((source, index) => (
+          <div
+            key={source.url}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDragIndex(index);
+            }}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropIndex(index);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(index);
+            }}
+            onDragEnd={() => {
+              setDragIndex(null);
+              setDropIndex(null);
+            }}
+            className={`rounded-lg ${dragIndex === index ? 'opacity-40' : ''} ${dropIndex === index && dragIndex !== index ? 'ring-1 ring-[#79B8FF]' : ''}`}
+          >
+            <UrlItem
+              source={source}
+              onChange={(updated) => updateUrls(current => current.map(item => item.url === source.url ? updated : item))}
+              onRemove={() => updateUrls(current => current.filter(item => item.url !== source.url))}
+              onMove={(offset) => moveUrl(index, index + offset)}
+            />
           </div>
         ))}
       </div>
+
+      <div className="flex items-center justify-end gap-2 pt-3 mt-3 border-t border-[rgba(255,255,255,0.05)]">
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        <button onClick={() => fileInputRef.current?.click()} className="flex items-center text-xs px-2 py-1 text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10">
+          <Upload size={14} className="mr-1" />
+          Import
+        </button>
+        <button onClick={handleExport} className="flex items-center text-xs px-2 py-1 text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10">
+          <Download size={14} className="mr-1" />
+          Export all
+        </button>
+      </div>
     </div>
   );
 };
@@ -3,10 +3,12 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { marked } from 'marked';
 import hljs from 'highlight.js';
-import { ChatMessage, MessageSender, UrlContextMetadataItem } from '../types';
+import { RefreshCw, RotateCcw } from 'lucide-react';
+import { linkGlossaryTerms } from '../services/glossaryService';
+import { ChatMessage, Citation, GlossaryTerm, MessageSender, UrlContextMetadataItem } from '../types';
 
 // Configure marked to use highlight.js for syntax highlighting
 marked.setOptions({
@@ -19,8 +21,31 @@ marked.setOptions({
 
 interface MessageItemProps {
   message: ChatMessage;
+  citationHref?: (citation: Citation) => string;
+  onRegenerate?: (message: ChatMessage) => void;
+  onRetry?: (message: ChatMessage) => void; // Shown on a failed answer, unless retrying cannot help
+  glossaryTerms?: GlossaryTerm[]; // Linked wherever they are mentioned in an answer
 }
 
+// Why a URL in the answer's context could not be used, by retrieval status.
+const URL_FAILURE_REASONS: Record<string, string> = {
+  URL_RETRIEVAL_STATUS_ERROR: 'Could not be fetched (e.g. not found or unreachable).',
+  URL_RETRIEVAL_STATUS_PAYWALL: 'Behind a paywall.',
+  URL_RETRIEVAL_STATUS_UNSAFE: 'Blocked as unsafe content.',
+  URL_RETRIEVAL_STATUS_UNSPECIFIED: 'Not read by the model.',
+};
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+// Turns [n] footnote markers into superscript links for the citations that exist.
+const linkCitations = (text: string, citations: Citation[], citationHref: (citation: Citation) => string): string => {
+  return text.replace(/\[(\d+)\]/g, (marker, id) => {
+    const citation = citations.find(c => c.id === Number(id));
+    if (!citation) return marker;
+    return `<sup><a href="${escapeAttribute(citationHref(citation))}" title="${escapeAttribute(citation.quote)}" class="text-[#79B8FF] no-underline hover:underline">[${id}]</a></sup>`;
+  });
+};
+
 const SenderAvatar: React.FC<{ sender: MessageSender }> = ({ sender }) => {
   let avatarChar = '';
   let bgColorClass = '';
@@ -47,16 +72,28 @@ const SenderAvatar: React.FC<{ sender: MessageSender }> = ({ sender }) => {
   );
 };
 
-const MessageItem: React.FC<MessageItemProps> = ({ message }) => {
+const MessageItem: React.FC<MessageItemProps> = ({ message, citationHref, onRegenerate, onRetry, glossaryTerms }) => {
   const isUser = message.sender === MessageSender.USER;
   const isModel = message.sender === MessageSender.MODEL;
   const isSystem = message.sender === MessageSender.SYSTEM;
+  const proseRef = useRef<HTMLDivElement>(null);
+
+  const rawMarkup = useMemo(() => {
+    if (!isModel) return '';
+    const text = citationHref && message.citations?.length
+      ? linkCitations(message.text || "", message.citations, citationHref)
+      : message.text || "";
+    return marked.parse(text) as string;
+  }, [isModel, message.text, message.citations, citationHref]);
+
+  useEffect(() => {
+    if (proseRef.current && glossaryTerms) linkGlossaryTerms(proseRef.current, glossaryTerms);
+  }, [rawMarkup, message.isLoading, glossaryTerms]);
 
   const renderMessageContent = () => {
     if (isModel && !message.isLoading) {
       const proseClasses = "prose prose-sm prose-invert w-full min-w-0"; 
-      const rawMarkup = marked.parse(message.text || "") as string;
-      return <div className={proseClasses} dangerouslySetInnerHTML={{ __html: rawMarkup }} />;
+      return <div ref={proseRef} className={proseClasses} dangerouslySetInnerHTML={{ __html: rawMarkup }} />;
     }
     
     let textColorClass = '';
@@ -85,6 +122,12 @@ const MessageItem: React.FC<MessageItemProps> = ({ message }) => {
       <div className={`flex items-start gap-2 max-w-[85%]`}>
         {!isUser && <SenderAvatar sender={message.sender} />}
         <div className={bubbleClasses}>
+          {isModel && message.scope && (
+            <div className="mb-2 pb-2 border-b border-[rgba(255,255,255,0.1)] text-[11px] text-[#A8ABB4]">
+              <span className="font-semibold">Answering from: </span>{message.scope.label}
+              {message.scope.passage && <p className="mt-0.5 pl-2 border-l-2 border-[rgba(255,255,255,0.2)] italic line-clamp-3">{message.scope.passage}</p>}
+            </div>
+          )}
           {message.isLoading ? (
             <div className="flex items-center space-x-1.5">
               <div className={`w-1.5 h-1.5 rounded-full animate-bounce [animation-delay:-0.3s] ${isUser ? 'bg-white' : 'bg-[#A8ABB4]'}`}></div>
@@ -95,9 +138,80 @@ const MessageItem: React.FC<MessageItemProps> = ({ message }) => {
             renderMessageContent()
           )}
           
+          {isModel && message.answerStatus === 'not_found' && (
+            <p className="mt-2 inline-block px-1.5 py-0.5 rounded-sm text-[10px] font-semibold bg-amber-500/20 text-amber-300">
+              NOT FOUND IN DOCUMENT
+            </p>
+          )}
+
+          {isModel && citationHref && message.citations && message.citations.length > 0 && (
+            <div className="mt-2.5 pt-2.5 border-t border-[rgba(255,255,255,0.1)]">
+              <h4 className="text-xs font-semibold text-[#A8ABB4] mb-1">Sources:</h4>
+              <ol className="space-y-1">
+                {message.citations.map(citation => (
+                  <li key={citation.id} className="text-[11px] text-[#A8ABB4]">
+                    <a href={citationHref(citation)} className="hover:underline text-[#79B8FF]">
+                      [{citation.id}]
+                    </a>
+                    <span className="ml-1.5 italic">“{citation.quote}”</span>
+                    {!citation.verified && (
+                      <span className="ml-1.5 px-1 py-0.5 rounded-sm text-[9px] bg-slate-600/30 text-slate-400">
+                        QUOTE NOT FOUND
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          {isModel && !message.isLoading && message.context && message.context.length > 0 && (
+            <details className="mt-2.5 pt-2.5 border-t border-[rgba(255,255,255,0.1)]">
+              <summary className="text-xs font-semibold text-[#A8ABB4] cursor-pointer">
+                Retrieved context ({message.context.length} chunks)
+              </summary>
+              <ul className="mt-1 space-y-1.5">
+                {message.context.map((chunk, index) => (
+                  <li key={index} className="text-[11px] text-[#A8ABB4]">
+                    <span className="font-semibold text-[#E2E2E2]">{chunk.title || 'Document'}</span>
+                    <span className="ml-1.5 px-1 py-0.5 rounded-sm text-[9px] bg-white/[.12]">
+                      {chunk.score > 0 ? `score ${chunk.score.toFixed(2)}` : 'filler'}
+                    </span>
+                    <p className="mt-0.5 line-clamp-3">{chunk.text}</p>
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+
+          {isModel && !message.isLoading && onRegenerate && (
+            <button
+              onClick={() => onRegenerate(message)}
+              className="mt-2 flex items-center gap-1 text-[11px] text-[#A8ABB4] hover:text-white transition-colors"
+            >
+              <RefreshCw size={12} />
+              Regenerate
+            </button>
+          )}
+
+          {isSystem && message.error && message.error !== 'auth' && onRetry && (
+            <button
+              onClick={() => onRetry(message)}
+              className="mt-2 flex items-center gap-1 text-[11px] text-[#79B8FF] hover:text-white transition-colors"
+            >
+              <RotateCcw size={12} />
+              Retry
+            </button>
+          )}
+
           {isModel && message.urlContext && message.urlContext.length > 0 && (
             <div className="mt-2.5 pt-2.5 border-t border-[rgba(255,255,255,0.1)]">
               <h4 className="text-xs font-semibold text-[#A8ABB4] mb-1">Context URLs Retrieved:</h4>
+              {message.urlContext.some(meta => meta.urlRetrievalStatus !== 'URL_RETRIEVAL_STATUS_SUCCESS') && (
+                <p className="text-[11px] text-[#fbbf24] mb-1">
+                  {message.urlContext.filter(meta => meta.urlRetrievalStatus !== 'URL_RETRIEVAL_STATUS_SUCCESS').length} of {message.urlContext.length} sources could not be read, so the answer may be incomplete.
+                </p>
+              )}
               <ul className="space-y-0.5">
                 {message.urlContext.map((meta, index) => {
                   const statusText = typeof meta.urlRetrievalStatus === 'string' 
@@ -117,6 +231,11 @@ const MessageItem: React.FC<MessageItemProps> = ({ message }) => {
                       }`}>
                         {statusText}
                       </span>
+                      {!isSuccess && (
+                        <span className="ml-1.5 text-[#f87171]">
+                          {URL_FAILURE_REASONS[meta.urlRetrievalStatus] ?? URL_FAILURE_REASONS.URL_RETRIEVAL_STATUS_UNSPECIFIED}
+                        </span>
+                      )}
                     </li>
                   );
                 })}
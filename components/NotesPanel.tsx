@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { Download, Trash2, AlertTriangle } from 'lucide-react';
+import { HIGHLIGHT_COLORS, annotationsToMarkdown } from '../services/annotationService';
+import { parseSections, sectionLookup, slugify } from '../services/documentParser';
+import type { Annotation, Document, HighlightColor } from '../types';
+
+interface NotesPanelProps {
+  document: Document;
+  annotations: Annotation[];
+  positions: Record<string, number | null>; // Where each passage was found on the page; null if it is gone
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onChange: (annotation: Annotation) => void;
+  onDelete: (id: string) => void;
+}
+
+// Component for listing a document's highlights and notes by section
+const NotesPanel: React.FC<NotesPanelProps> = ({ document, annotations, positions, activeId, onSelect, onChange, onDelete }) => {
+  const [draft, setDraft] = useState('');
+
+  const groups = useMemo(() => {
+    const sections = parseSections(document.body);
+    const sectionOf = sectionLookup(document.body);
+    // Passages that can no longer be found go after the rest of their section.
+    const order = (annotation: Annotation) => positions[annotation.id] ?? Number.MAX_SAFE_INTEGER;
+    return sections.map(section => ({
+      id: section.id,
+      title: section.title,
+      annotations: annotations
+        .filter(annotation => sectionOf(annotation.anchor) === section.id)
+        .sort((a, b) => order(a) - order(b) || a.createdAt.localeCompare(b.createdAt)),
+    })).filter(group => group.annotations.length > 0);
+  }, [document.body, annotations, positions]);
+
+  const active = annotations.find(annotation => annotation.id === activeId);
+  useEffect(() => {
+    setDraft(active?.note ?? '');
+  }, [activeId]);
+
+  const saveNote = (annotation: Annotation) => {
+    if (draft !== annotation.note) onChange({ ...annotation, note: draft, updatedAt: new Date().toISOString() });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([annotationsToMarkdown(document.title, groups)], { type: 'text/markdown' });
+    const href = URL.createObjectURL(blob);
+    const link = window.document.createElement('a');
+    link.href = href;
+    link.download = `${slugify(document.title)}-notes.md`;
+    link.click();
+    URL.revokeObjectURL(href);
+  };
+
+  return (
+    <div className="flex flex-col min-h-0 h-full">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-lg font-semibold text-slate-800">Notes</h2>
+        <button
+          onClick={handleExport}
+          disabled={annotations.length === 0}
+          className="flex items-center text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          title="Download every highlight and note as Markdown"
+        >
+          <Download size={14} className="mr-1" />
+          Export
+        </button>
+      </div>
+
+      {annotations.length === 0 ? (
+        <p className="text-sm text-gray-500">Select text in the report to highlight it or add a note.</p>
+      ) : (
+        <div className="overflow-y-auto space-y-4">
+          {groups.map(group => (
+            <section key={group.id}>
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-1">{group.title}</h3>
+              <ul className="space-y-2">
+                {group.annotations.map(annotation => {
+                  const missing = positions[annotation.id] === null;
+                  const isActive = annotation.id === activeId;
+                  return (
+                    <li
+                      key={annotation.id}
+                      className={`p-2 rounded-md border text-sm ${isActive ? 'border-blue-400 bg-blue-50' : 'border-slate-200 bg-white'}`}
+                    >
+                      <button onClick={() => onSelect(annotation.id)} className="block w-full text-left">
+                        <span className={`${HIGHLIGHT_COLORS[annotation.color].className} line-clamp-3`}>{annotation.quote.exact}</span>
+                        {!isActive && annotation.note && <span className="block mt-1 text-gray-700 whitespace-pre-wrap">{annotation.note}</span>}
+                      </button>
+                      {missing && (
+                        <p className="flex items-center mt-1 text-xs text-amber-700">
+                          <AlertTriangle size={12} className="mr-1 flex-shrink-0" />
+                          This passage is no longer in the document.
+                        </p>
+                      )}
+                      {isActive && (
+                        <div className="mt-2 space-y-2">
+                          <textarea
+                            autoFocus
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            onBlur={() => saveNote(annotation)}
+                            placeholder="Add a note..."
+                            rows={3}
+                            className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                          <div className="flex items-center justify-between">
+                            <div className="flex gap-1">
+                              {(Object.keys(HIGHLIGHT_COLORS) as HighlightColor[]).map(color => (
+                                <button
+                                  key={color}
+                                  onClick={() => onChange({ ...annotation, note: draft, color, updatedAt: new Date().toISOString() })}
+                                  className={`w-5 h-5 rounded-full ${HIGHLIGHT_COLORS[color].swatch} ${annotation.color === color ? 'ring-2 ring-offset-1 ring-slate-500' : ''}`}
+                                  aria-label={`Change color to ${HIGHLIGHT_COLORS[color].label.toLowerCase()}`}
+                                  aria-pressed={annotation.color === color}
+                                />
+                              ))}
+                            </div>
+                            <button
+                              onClick={() => onDelete(annotation.id)}
+                              className="flex items-center text-xs text-gray-500 hover:text-red-600"
+                            >
+                              <Trash2 size={12} className="mr-1" />
+                              Delete
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotesPanel;
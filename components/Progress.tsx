@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useMemo } from 'react';
+import { Target, Trash2 } from 'lucide-react';
+import { parseSections } from '../services/documentParser';
+import { loadAttempts, clearAttempts, attemptScore, sectionMastery, weakestSections } from '../services/quizHistoryService';
+import type { QuizAttempt, Document } from '../types';
+
+interface ProgressProps {
+  document: Document;
+  onPractice: (sectionIds: string[]) => void;
+}
+
+const CHART_WIDTH = 560;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = 28;
+
+const accuracyColor = (accuracy: number) => {
+  if (accuracy >= 0.8) return 'bg-green-500';
+  if (accuracy >= 0.5) return 'bg-amber-500';
+  return 'bg-red-500';
+};
+
+// Line chart of each attempt's score as a percentage, oldest on the left.
+const ScoreChart: React.FC<{ attempts: QuizAttempt[] }> = ({ attempts }) => {
+  const innerWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const innerHeight = CHART_HEIGHT - CHART_PADDING * 2;
+  const points = attempts.map((attempt, index) => {
+    const percent = attempt.outcomes.length ? attemptScore(attempt) / attempt.outcomes.length : 0;
+    return {
+      attempt,
+      percent,
+      x: CHART_PADDING + (attempts.length === 1 ? innerWidth / 2 : (index / (attempts.length - 1)) * innerWidth),
+      y: CHART_PADDING + (1 - percent) * innerHeight,
+    };
+  });
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Quiz scores over time">
+      {[0, 0.5, 1].map(level => {
+        const y = CHART_PADDING + (1 - level) * innerHeight;
+        return (
+          <g key={level}>
+            <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={y} y2={y} className="stroke-slate-200" />
+            <text x={CHART_PADDING - 6} y={y + 4} textAnchor="end" className="fill-gray-400 text-[10px]">{level * 100}%</text>
+          </g>
+        );
+      })}
+      <polyline
+        points={points.map(point => `${point.x},${point.y}`).join(' ')}
+        fill="none"
+        className="stroke-blue-600"
+        strokeWidth={2}
+      />
+      {points.map(point => (
+        <circle key={point.attempt.id} cx={point.x} cy={point.y} r={4} className="fill-blue-600">
+          <title>
+            {`${new Date(point.attempt.completedAt).toLocaleString()}: ${attemptScore(point.attempt)} / ${point.attempt.outcomes.length} (${point.attempt.difficulty})`}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+// Component for quiz history: scores over time and mastery per section
+const Progress: React.FC<ProgressProps> = ({ document, onPractice }) => {
+  const sections = useMemo(() => parseSections(document.body), [document.body]);
+  const [attempts, setAttempts] = useState<QuizAttempt[]>(() => loadAttempts(document.id));
+  const mastery = useMemo(
+    () => sectionMastery(attempts, sections.map(section => section.id)),
+    [attempts, sections]
+  );
+  const weakest = weakestSections(mastery);
+
+  const handleClear = () => {
+    clearAttempts(document.id);
+    setAttempts([]);
+  };
+
+  return (
+    <div className="p-4 md:p-8 flex flex-col items-center">
+      <div className="w-full max-w-2xl bg-gray-50 rounded-lg shadow-lg p-6 space-y-6">
+        <h2 className="text-2xl font-semibold text-gray-800 text-center">Progress</h2>
+
+        {attempts.length === 0 ? (
+          <p className="text-center text-gray-600">No quizzes taken yet. Finish a quiz to start tracking your progress.</p>
+        ) : (
+          <>
+            <section>
+              <h3 className="text-lg font-semibold text-slate-700 mb-2">
+                Scores <span className="text-sm font-normal text-gray-500">({attempts.length} {attempts.length === 1 ? 'quiz' : 'quizzes'})</span>
+              </h3>
+              <div className="p-2 border border-slate-200 rounded-md bg-white">
+                <ScoreChart attempts={attempts} />
+              </div>
+            </section>
+
+            <section>
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="text-lg font-semibold text-slate-700">Mastery by section</h3>
+                <button
+                  onClick={() => onPractice(weakest)}
+                  disabled={weakest.length === 0}
+                  className="flex items-center text-sm px-3 py-1.5 rounded-md bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  title={weakest.length === 0 ? 'Answer some questions first, or every practised section is mastered' : undefined}
+                >
+                  <Target size={14} className="mr-1" />
+                  Practice weak sections
+                </button>
+              </div>
+              <ul className="space-y-2">
+                {sections.map(section => {
+                  const entry = mastery.find(item => item.sectionId === section.id)!;
+                  return (
+                    <li key={section.id} className="text-sm">
+                      <div className="flex justify-between text-gray-700">
+                        <span className="truncate mr-2" title={section.title}>
+                          {section.title}
+                          {weakest.includes(section.id) && <span className="ml-1.5 text-[10px] font-semibold text-red-600">WEAK</span>}
+                        </span>
+                        <span className="flex-shrink-0 text-gray-500">
+                          {entry.total === 0 ? 'Not practised' : `${entry.correct} / ${entry.total} (${Math.round(entry.accuracy * 100)}%)`}
+                        </span>
+                      </div>
+                      <div className="mt-1 h-2 rounded-full bg-slate-200 overflow-hidden">
+                        <div
+                          className={`h-full ${accuracyColor(entry.accuracy)}`}
+                          style={{ width: `${entry.total === 0 ? 0 : Math.max(2, entry.accuracy * 100)}%` }}
+                        />
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+
+            <div className="text-right">
+              <button onClick={handleClear} className="inline-flex items-center text-sm text-gray-500 hover:text-red-600">
+                <Trash2 size={14} className="mr-1" />
+                Clear history
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Progress;
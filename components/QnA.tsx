@@ -0,0 +1,203 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import ChatInterface from './ChatInterface';
+import QnaScopeBar from './QnaScopeBar';
+import { streamAnswer } from '../services/geminiService';
+import { formatRoute } from '../services/router';
+import { createMessage } from '../services/chatMessage';
+import { toLlmError } from '../services/llmErrors';
+import { retrieveChunks } from '../services/retrievalService';
+import type { RetrievedChunk } from '../services/retrievalService';
+import { parseOutline, flattenOutline, parseSections } from '../services/documentParser';
+import { MessageSender } from '../types';
+import type { AnswerScope, ChatMessage, Citation, Document, GlossaryTerm } from '../types';
+
+interface QnAProps {
+  document: Document;
+  question?: string; // Question from the URL, asked automatically when it changes
+  passage?: { text: string; anchor: string }; // Selected text from the report to limit answers to
+  glossaryTerms: GlossaryTerm[];
+  onAsk: (question: string) => void;
+  onClearPassage: () => void;
+}
+
+const MAX_SUGGESTIONS = 3;
+const CONTEXT_CHUNKS = 6;
+
+// Component for a multi-turn Q&A chat about the active document
+const QnA: React.FC<QnAProps> = ({ document, question: linkedQuestion, passage, glossaryTerms, onAsk, onClearPassage }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>(() => [
+    createMessage(MessageSender.SYSTEM, `Ask anything about "${document.title}". Follow-up questions keep the context of the conversation.`),
+  ]);
+  const [loading, setLoading] = useState(false);
+  const [sectionIds, setSectionIds] = useState<string[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+  // Mirrors `messages` so a request always sees the latest history, even when fired from an effect.
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+
+  const outline = useMemo(() => flattenOutline(parseOutline(document.body)), [document.body]);
+  const sections = useMemo(() => parseSections(document.body), [document.body]);
+
+  // Offer the document's named concepts (or sections) as starter questions.
+  const suggestions = useMemo(() => {
+    const nodes = outline;
+    const concepts = nodes.filter(node => node.kind === 'concept');
+    const source = concepts.length > 0 ? concepts : nodes.filter(node => node.depth > 1);
+    return source.slice(0, MAX_SUGGESTIONS).map(node => `What is ${node.title.split(':')[0]}?`);
+  }, [outline]);
+
+  const updateMessage = (id: string, update: (message: ChatMessage) => ChatMessage) => {
+    setMessages(prev => prev.map(message => message.id === id ? update(message) : message));
+  };
+
+  // Streams the model's reply into a new message, sending the conversation so far as context.
+  // `refresh` skips the answer cache.
+  const ask = async (text: string, refresh = false) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const history = messagesRef.current;
+    // Include the previous question so follow-ups like "what about the +1?" retrieve the right context.
+    const previousQuestion = [...history].reverse().find(message => message.sender === MessageSender.USER)?.text ?? '';
+    let context: RetrievedChunk[];
+    let scope: AnswerScope | undefined;
+    if (passage) {
+      // A selected passage is the whole context, so there is nothing to retrieve or list.
+      const title = outline.find(node => node.id === passage.anchor)?.title ?? '';
+      context = [{ id: 0, anchor: passage.anchor, title, text: passage.text, score: 0 }];
+      scope = { label: title ? `Selected passage in "${title}"` : 'Selected passage', passage: passage.text };
+    } else {
+      context = retrieveChunks(document.body, `${previousQuestion} ${text}`, CONTEXT_CHUNKS, sectionIds);
+      if (sectionIds.length > 0) {
+        scope = { label: sections.filter(section => sectionIds.includes(section.id)).map(section => section.title).join(', ') };
+      }
+    }
+    const userMessage = createMessage(MessageSender.USER, text);
+    const modelMessage = { ...createMessage(MessageSender.MODEL, '', true), context: passage ? undefined : context, scope };
+    setMessages(prev => [...prev, userMessage, modelMessage]);
+    setLoading(true);
+
+    try {
+      const stream = streamAnswer(document.body, context, history, text, { signal: controller.signal, refresh });
+      let step = await stream.next();
+      while (!step.done) {
+        const chunk = step.value;
+        updateMessage(modelMessage.id, message => ({ ...message, text: message.text + chunk, isLoading: false }));
+        step = await stream.next();
+      }
+      const grounded = step.value;
+      if (grounded) {
+        updateMessage(modelMessage.id, message => ({
+          ...message,
+          text: grounded.answer,
+          isLoading: false,
+          answerStatus: grounded.status,
+          citations: grounded.citations,
+        }));
+      }
+    } catch (error) {
+      console.error('Error answering question:', error);
+      const failure = toLlmError(error);
+      updateMessage(modelMessage.id, message => ({
+        ...message,
+        sender: MessageSender.SYSTEM,
+        text: failure.message,
+        error: failure.kind,
+        isLoading: false,
+      }));
+    } finally {
+      // A reply that was stopped before any text arrived has nothing worth keeping. If a newer
+      // request replaced it, drop the unanswered question as well.
+      const superseded = abortRef.current !== null && abortRef.current !== controller;
+      setMessages(prev => prev.some(message => message.id === modelMessage.id && message.isLoading)
+        ? prev.filter(message => message.id !== modelMessage.id && !(superseded && message.id === userMessage.id))
+        : prev);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoading(false);
+      }
+    }
+  };
+
+  // Stops generation but keeps whatever part of the answer has arrived.
+  const handleStop = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setLoading(false);
+    setMessages(prev => [...prev, createMessage(MessageSender.SYSTEM, 'Answer stopped.')]);
+  };
+
+  // Replaces an answer, or the error shown in its place, and everything after it with a freshly generated one.
+  const handleRegenerate = (message: ChatMessage) => {
+    const history = messagesRef.current;
+    const index = history.findIndex(m => m.id === message.id);
+    let questionIndex = index - 1;
+    while (questionIndex >= 0 && history[questionIndex].sender !== MessageSender.USER) questionIndex--;
+    if (questionIndex < 0) return;
+    const trimmed = history.slice(0, questionIndex);
+    messagesRef.current = trimmed;
+    setMessages(trimmed);
+    ask(history[questionIndex].text, true);
+  };
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (linkedQuestion) ask(linkedQuestion);
+  }, [linkedQuestion]);
+
+  // Citations open the report scrolled to, and highlighting, the quoted passage.
+  const citationHref = (citation: Citation) => formatRoute({
+    view: 'report',
+    documentId: document.id,
+    section: citation.anchor || undefined,
+    quote: citation.verified ? citation.quote : undefined,
+  });
+
+  // Records the question in the URL, which triggers the request; asking the same
+  // question again leaves the URL unchanged, so it is sent directly.
+  const handleSend = (text: string) => {
+    if (text === linkedQuestion) ask(text);
+    else onAsk(text);
+  };
+
+  return (
+    <div className="p-4 md:p-8 flex flex-col items-center">
+      <div className="w-full max-w-3xl h-[70vh] flex flex-col">
+        <QnaScopeBar
+          sections={sections}
+          sectionIds={sectionIds}
+          passage={passage?.text}
+          disabled={loading}
+          onSectionsChange={setSectionIds}
+          onClearPassage={onClearPassage}
+        />
+        <div className="flex-1 min-h-0">
+          <ChatInterface
+            title="Ask a Question"
+            placeholderText={document.title}
+            inputPlaceholder={`Ask a question about ${document.title}...`}
+            messages={messages}
+            onSendMessage={handleSend}
+            onStop={handleStop}
+            onRegenerate={handleRegenerate}
+            onRetry={handleRegenerate}
+            isLoading={loading}
+            initialQuerySuggestions={suggestions}
+            onSuggestedQueryClick={handleSend}
+            citationHref={citationHref}
+            glossaryTerms={glossaryTerms}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QnA;
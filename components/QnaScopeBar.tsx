@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { ChevronDown, Quote, X } from 'lucide-react';
+import type { OutlineNode } from '../services/documentParser';
+
+interface QnaScopeBarProps {
+  sections: OutlineNode[];
+  sectionIds: string[]; // Chosen top-level sections; empty for the whole document
+  passage?: string; // Selected text the questions are limited to, which takes precedence over sections
+  disabled: boolean;
+  onSectionsChange: (sectionIds: string[]) => void;
+  onClearPassage: () => void;
+}
+
+// Component for choosing which part of the document Q&A answers are drawn from
+const QnaScopeBar: React.FC<QnaScopeBarProps> = ({ sections, sectionIds, passage, disabled, onSectionsChange, onClearPassage }) => {
+  if (passage) {
+    return (
+      <div className="flex items-start gap-2 p-2 mb-2 rounded-lg bg-blue-50 border border-blue-200 text-sm text-blue-900">
+        <Quote size={14} className="mt-0.5 flex-shrink-0" />
+        <p className="flex-1 min-w-0">
+          <span className="font-semibold">Asking about the selected passage: </span>
+          <span className="italic line-clamp-2">{passage}</span>
+        </p>
+        <button
+          onClick={onClearPassage}
+          disabled={disabled}
+          className="p-0.5 rounded-md hover:bg-blue-100 disabled:opacity-50 flex-shrink-0"
+          aria-label="Ask about the whole document instead"
+          title="Ask about the whole document instead"
+        >
+          <X size={14} />
+        </button>
+      </div>
+    );
+  }
+
+  const toggle = (id: string) => {
+    onSectionsChange(sectionIds.includes(id) ? sectionIds.filter(existing => existing !== id) : [...sectionIds, id]);
+  };
+
+  return (
+    <details className="mb-2 rounded-lg bg-white border border-slate-200 text-sm">
+      <summary className="flex items-center justify-between px-3 py-2 cursor-pointer text-gray-700 list-none">
+        <span>
+          Context: <span className="font-semibold">{sectionIds.length === 0 ? 'Whole document' : `${sectionIds.length} of ${sections.length} sections`}</span>
+        </span>
+        <ChevronDown size={14} className="text-gray-500" />
+      </summary>
+      <fieldset disabled={disabled} className="px-3 pb-3 max-h-48 overflow-y-auto">
+        <button
+          onClick={() => onSectionsChange([])}
+          disabled={sectionIds.length === 0}
+          className="mb-1 text-xs text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+        >
+          Use the whole document
+        </button>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+          {sections.map(section => (
+            <label key={section.id} className="flex items-center gap-1 min-w-0">
+              <input type="checkbox" checked={sectionIds.includes(section.id)} onChange={() => toggle(section.id)} />
+              <span className="truncate" title={section.title}>{section.title}</span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+    </details>
+  );
+};
+
+export default QnaScopeBar;
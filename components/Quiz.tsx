@@ -0,0 +1,308 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Loader2 } from 'lucide-react';
+import { generateQuiz, gradeFreeTextAnswer, explainQuizQuestion } from '../services/geminiService';
+import { formatRoute } from '../services/router';
+import { sampleChunks } from '../services/retrievalService';
+import type { Chunk } from '../services/retrievalService';
+import { parseSections, sectionLookup } from '../services/documentParser';
+import { addOutcomes, recordAttempt } from '../services/quizHistoryService';
+import { initialAnswer, isAnswered, isCorrect } from '../services/quizService';
+import type { QuizIssue } from '../services/quizService';
+import QuizConfigPanel from './QuizConfigPanel';
+import QuizQuestionInput from './QuizQuestionInput';
+import QuizReviewItem from './QuizReviewItem';
+import ErrorNotice from './ErrorNotice';
+import type { Document, FreeTextGrade, QuestionOutcome, QuizAnswer, QuizConfig, QuizQuestion, QuizSource } from '../types';
+
+interface QuizProps {
+  document: Document;
+  practiceSectionIds?: string[]; // Sections to generate a practice quiz for right away
+}
+
+const CONTEXT_CHUNKS = 8;
+
+const DEFAULT_CONFIG: QuizConfig = {
+  questionCount: 5,
+  difficulty: 'medium',
+  types: ['multiple_choice'],
+  sectionIds: [],
+};
+
+// Component for a Quiz
+const Quiz: React.FC<QuizProps> = ({ document, practiceSectionIds }) => {
+  const sections = useMemo(() => parseSections(document.body), [document.body]);
+  const sectionOf = useMemo(() => sectionLookup(document.body), [document.body]);
+  const [panelConfig, setPanelConfig] = useState<QuizConfig>(DEFAULT_CONFIG);
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [userAnswers, setUserAnswers] = useState<Record<number, QuizAnswer>>({});
+  const [grades, setGrades] = useState<Record<number, FreeTextGrade>>({});
+  // Free-text answers whose grading failed; they count neither way until graded.
+  const [gradeErrors, setGradeErrors] = useState<Record<number, Error>>({});
+  const [grading, setGrading] = useState(false);
+  const [showResults, setShowResults] = useState(false);
+  const [context, setContext] = useState<Chunk[]>([]);
+  const [error, setError] = useState<Error | null>(null);
+  const [issues, setIssues] = useState<QuizIssue[]>([]);
+  const [activeConfig, setActiveConfig] = useState<QuizConfig | null>(null);
+  // Counts requests so a quiz that arrives after a newer one was requested is ignored.
+  const requestRef = useRef(0);
+  // The recorded attempt, which answers graded late are added to.
+  const attemptIdRef = useRef<string | null>(null);
+
+  // Generates a quiz following the given configuration, by default the one in the panel
+  const callGenerateQuiz = async (config: QuizConfig = panelConfig) => {
+    setLoading(true);
+    setQuestions([]);
+    setUserAnswers({});
+    setGrades({});
+    setGradeErrors({});
+    setShowResults(false);
+    setError(null);
+    setIssues([]);
+    setActiveConfig(config);
+    const request = ++requestRef.current;
+
+    // Draw questions from chunks spread across the chosen sections instead of sending all of it.
+    const selected = sampleChunks(document.body, Math.max(CONTEXT_CHUNKS, config.questionCount), config.sectionIds);
+    setContext(selected);
+
+    try {
+        const quizData = await generateQuiz(selected, config);
+        if (request !== requestRef.current) return;
+        if (quizData && quizData.quiz.length > 0) {
+            const answers: Record<number, QuizAnswer> = {};
+            quizData.quiz.forEach((question, index) => {
+              const answer = initialAnswer(question);
+              if (answer !== undefined) answers[index] = answer;
+            });
+            setQuestions(quizData.quiz);
+            setUserAnswers(answers);
+            setIssues(quizData.issues);
+        } else {
+            throw new Error('Invalid quiz data format.');
+        }
+    } catch (error: any) {
+        console.error('Error generating quiz:', error);
+        if (request === requestRef.current) setError(error);
+    } finally {
+        if (request === requestRef.current) setLoading(false);
+    }
+  };
+
+  const handleAnswer = (questionIndex: number, answer: QuizAnswer) => {
+    setUserAnswers({ ...userAnswers, [questionIndex]: answer });
+  };
+
+  const isQuestionCorrect = (question: QuizQuestion, index: number) => {
+    return question.type === 'free_text'
+      ? grades[index]?.correct === true
+      : isCorrect(question, userAnswers[index]);
+  };
+
+  const calculateScore = () => {
+    return questions.filter((q, index) => isQuestionCorrect(q, index)).length;
+  };
+
+  // Sources open the report scrolled to, and highlighting, the quoted passage.
+  const sourceHref = (source: QuizSource) => formatRoute({
+    view: 'report',
+    documentId: document.id,
+    section: source.anchor || undefined,
+    quote: source.verified ? source.quote : undefined,
+  });
+
+  const outcomeOf = (question: QuizQuestion, index: number, grade?: FreeTextGrade): QuestionOutcome => ({
+    type: question.type,
+    // Tag by the verified source, or by the only section the quiz covered.
+    sectionId: question.source?.verified
+      ? sectionOf(question.source.anchor)
+      : activeConfig?.sectionIds.length === 1 ? activeConfig.sectionIds[0] : undefined,
+    correct: question.type === 'free_text' ? grade?.correct === true : isCorrect(question, userAnswers[index]),
+  });
+
+  // Free-text answers are graded by the model before the results are shown. Answers that could
+  // not be graded are left out of the recorded attempt until a retry succeeds.
+  const handleSubmit = async () => {
+    setGrading(true);
+    const graded: Record<number, FreeTextGrade> = {};
+    const failed: Record<number, Error> = {};
+    await Promise.all(questions.map(async (question, index) => {
+      if (question.type !== 'free_text') return;
+      try {
+        graded[index] = await gradeFreeTextAnswer(question, String(userAnswers[index]), context);
+      } catch (error: any) {
+        failed[index] = error;
+      }
+    }));
+    setGrades(graded);
+    setGradeErrors(failed);
+    setGrading(false);
+    setShowResults(true);
+
+    attemptIdRef.current = recordAttempt({
+      documentId: document.id,
+      difficulty: activeConfig?.difficulty ?? panelConfig.difficulty,
+      outcomes: questions
+        .map((question, index) => failed[index] ? null : outcomeOf(question, index, graded[index]))
+        .filter((outcome): outcome is QuestionOutcome => outcome !== null),
+    }).id;
+  };
+
+  const retryGrading = async (index: number) => {
+    const question = questions[index];
+    try {
+      const grade = await gradeFreeTextAnswer(question, String(userAnswers[index]), context);
+      setGrades(prev => ({ ...prev, [index]: grade }));
+      setGradeErrors(prev => {
+        const next = { ...prev };
+        delete next[index];
+        return next;
+      });
+      if (attemptIdRef.current) addOutcomes(attemptIdRef.current, [outcomeOf(question, index, grade)]);
+    } catch (error: any) {
+      setGradeErrors(prev => ({ ...prev, [index]: error }));
+    }
+  };
+
+  const ungradedCount = Object.keys(gradeErrors).length;
+
+  useEffect(() => {
+    if (!practiceSectionIds?.length) return;
+    const config = { ...panelConfig, sectionIds: practiceSectionIds };
+    setPanelConfig(config);
+    callGenerateQuiz(config);
+  }, [practiceSectionIds?.join(',')]);
+
+  return (
+    <div className="p-4 md:p-8 flex flex-col items-center">
+      <div className="w-full max-w-2xl bg-gray-50 rounded-lg shadow-lg p-6">
+        <h2 className="text-2xl font-semibold text-gray-800 mb-4 text-center">Quiz</h2>
+        <QuizConfigPanel
+          config={panelConfig}
+          sections={sections}
+          disabled={loading || grading}
+          onChange={setPanelConfig}
+        />
+        <div className="text-center mb-4">
+          <button
+            onClick={() => callGenerateQuiz()}
+            className="bg-blue-600 text-white font-semibold py-2 px-4 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center mx-auto"
+            disabled={loading}
+          >
+            {loading ? (
+              <>
+                <Loader2 className="animate-spin mr-2" />
+                Generating Quiz...
+              </>
+            ) : (
+              'Start New Quiz'
+            )}
+          </button>
+        </div>
+
+        {error && <ErrorNotice error={error} onRetry={() => callGenerateQuiz(activeConfig ?? panelConfig)} className="mb-4" />}
+
+        {activeConfig && questions.length > 0 && questions.length < activeConfig.questionCount && (
+          <div className="mb-4 p-3 border border-amber-200 bg-amber-50 rounded-md text-sm text-amber-800">
+            <p className="font-semibold">
+              Only {questions.length} of {activeConfig.questionCount} questions could be generated.
+              {issues.length > 0 && ' The model kept returning invalid questions:'}
+            </p>
+            {issues.length > 0 && (
+              <ul className="mt-1 list-disc list-inside">
+                {issues.map((issue, index) => (
+                  <li key={index}>
+                    {issue.question
+                      ? <span className="italic">“{issue.question}”</span>
+                      : issue.position > 0 ? `Question ${issue.position}` : 'Response'}: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {context.length > 0 && (
+          <details className="mb-4 text-sm text-gray-600">
+            <summary className="cursor-pointer font-medium">Context sent to the model ({context.length} chunks)</summary>
+            <ul className="mt-2 space-y-2">
+              {context.map(chunk => (
+                <li key={chunk.id} className="p-2 bg-white border border-slate-200 rounded-md">
+                  <p className="font-semibold text-gray-700">{chunk.title || 'Document'}</p>
+                  <p className="line-clamp-3">{chunk.text}</p>
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+
+        {questions.length > 0 && !showResults && (
+          <div className="mt-4">
+            {questions.map((q, qIndex) => (
+              <div key={qIndex} className="mb-6 p-4 border border-slate-200 rounded-md bg-white shadow-sm">
+                <p className="font-semibold text-gray-800 text-lg mb-3">{`${qIndex + 1}. ${q.question}`}</p>
+                <QuizQuestionInput
+                  question={q}
+                  answer={userAnswers[qIndex]}
+                  onChange={(answer) => handleAnswer(qIndex, answer)}
+                />
+              </div>
+            ))}
+            <div className="text-center mt-6">
+              <button
+                onClick={handleSubmit}
+                className="bg-green-600 text-white font-semibold py-3 px-8 rounded-md hover:bg-green-700 transition-colors disabled:opacity-50 inline-flex items-center"
+                disabled={grading || questions.some((q, index) => !isAnswered(q, userAnswers[index]))}
+              >
+                {grading ? (
+                  <>
+                    <Loader2 className="animate-spin mr-2" />
+                    Grading...
+                  </>
+                ) : (
+                  'Submit Answers'
+                )}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {showResults && (
+          <div className="mt-4 text-center">
+            <h3 className="text-2xl font-bold text-gray-800">Your Score: {calculateScore()} / {questions.length - ungradedCount}</h3>
+            {ungradedCount > 0 && (
+              <p className="text-sm text-amber-700 mt-1">
+                {ungradedCount === 1 ? '1 answer' : `${ungradedCount} answers`} could not be graded and {ungradedCount === 1 ? 'is' : 'are'} not counted yet.
+              </p>
+            )}
+            <p className="text-lg text-gray-600 mt-2">Review your answers below:</p>
+            <div className="mt-6">
+              {questions.map((q, qIndex) => (
+                <QuizReviewItem
+                  key={qIndex}
+                  question={q}
+                  index={qIndex}
+                  answer={userAnswers[qIndex]}
+                  correct={isQuestionCorrect(q, qIndex)}
+                  grade={grades[qIndex]}
+                  gradeError={gradeErrors[qIndex]}
+                  onRetryGrade={() => retryGrading(qIndex)}
+                  sourceHref={sourceHref}
+                  onExplainMore={() => explainQuizQuestion(q, userAnswers[qIndex], context)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Quiz;
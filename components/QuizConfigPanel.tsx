@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { QUESTION_TYPE_LABELS } from '../services/quizService';
+import type { OutlineNode } from '../services/documentParser';
+import type { QuizConfig, QuizDifficulty, QuizQuestionType } from '../types';
+
+interface QuizConfigPanelProps {
+  config: QuizConfig;
+  sections: OutlineNode[];
+  disabled?: boolean;
+  onChange: (config: QuizConfig) => void;
+}
+
+const QUESTION_COUNTS = [3, 5, 10, 15];
+const DIFFICULTIES: QuizDifficulty[] = ['easy', 'medium', 'hard'];
+
+const toggle = <T,>(values: T[], value: T): T[] => {
+  return values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+};
+
+// Component for choosing the length, difficulty, question types and sections of a quiz
+const QuizConfigPanel: React.FC<QuizConfigPanelProps> = ({ config, sections, disabled, onChange }) => {
+  const types = Object.keys(QUESTION_TYPE_LABELS) as QuizQuestionType[];
+
+  return (
+    <fieldset disabled={disabled} className="mb-4 p-4 border border-slate-200 rounded-md bg-white space-y-4 text-sm">
+      <div className="flex flex-wrap gap-6">
+        <label className="flex items-center gap-2">
+          <span className="font-semibold text-gray-700">Questions</span>
+          <select
+            value={config.questionCount}
+            onChange={(e) => onChange({ ...config, questionCount: Number(e.target.value) })}
+            className="p-1 border border-gray-300 rounded-md bg-white"
+          >
+            {QUESTION_COUNTS.map(count => <option key={count} value={count}>{count}</option>)}
+          </select>
+        </label>
+        <div className="flex items-center gap-2">
+          <span className="font-semibold text-gray-700">Difficulty</span>
+          {DIFFICULTIES.map(difficulty => (
+            <label key={difficulty} className="flex items-center gap-1 capitalize">
+              <input
+                type="radio"
+                name="quiz-difficulty"
+                checked={config.difficulty === difficulty}
+                onChange={() => onChange({ ...config, difficulty })}
+              />
+              {difficulty}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="font-semibold text-gray-700 mb-1">Question types</p>
+        <div className="flex flex-wrap gap-x-4 gap-y-1">
+          {types.map(type => (
+            <label key={type} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={config.types.includes(type)}
+                // Keep at least one type selected.
+                disabled={config.types.length === 1 && config.types.includes(type)}
+                onChange={() => onChange({ ...config, types: toggle(config.types, type) })}
+              />
+              {QUESTION_TYPE_LABELS[type]}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="font-semibold text-gray-700 mb-1">
+          Sections <span className="font-normal text-gray-500">({config.sectionIds.length === 0 ? 'whole document' : `${config.sectionIds.length} selected`})</span>
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1">
+          {sections.map(section => (
+            <label key={section.id} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={config.sectionIds.includes(section.id)}
+                onChange={() => onChange({ ...config, sectionIds: toggle(config.sectionIds, section.id) })}
+              />
+              <span className="truncate" title={section.title}>{section.title}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+    </fieldset>
+  );
+};
+
+export default QuizConfigPanel;
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import type { QuizAnswer, QuizQuestion } from '../types';
+
+interface QuizQuestionInputProps {
+  question: QuizQuestion;
+  answer: QuizAnswer | undefined;
+  onChange: (answer: QuizAnswer) => void;
+}
+
+const optionClasses = (selected: boolean) => `
+  w-full text-left p-3 border-2 rounded-md transition-colors
+  ${selected
+    ? 'bg-blue-500 text-white border-blue-500'
+    : 'bg-white text-gray-800 border-gray-300 hover:bg-slate-100'
+  }
+`;
+
+// Component for answering a single quiz question of any type
+const QuizQuestionInput: React.FC<QuizQuestionInputProps> = ({ question, answer, onChange }) => {
+  switch (question.type) {
+    case 'multiple_choice':
+      return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {question.options.map((option, oIndex) => (
+            <button key={oIndex} onClick={() => onChange(option)} className={optionClasses(answer === option)}>
+              {option}
+            </button>
+          ))}
+        </div>
+      );
+
+    case 'true_false':
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          {[true, false].map(value => (
+            <button key={String(value)} onClick={() => onChange(value)} className={optionClasses(answer === value)}>
+              {value ? 'True' : 'False'}
+            </button>
+          ))}
+        </div>
+      );
+
+    case 'multi_select': {
+      const selected = Array.isArray(answer) ? answer : [];
+      const toggle = (option: string) => onChange(selected.includes(option)
+        ? selected.filter(item => item !== option)
+        : [...selected, option]);
+      return (
+        <>
+          <p className="text-sm text-gray-500 mb-2">Select all that apply.</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {question.options.map((option, oIndex) => (
+              <button
+                key={oIndex}
+                onClick={() => toggle(option)}
+                aria-pressed={selected.includes(option)}
+                className={optionClasses(selected.includes(option))}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </>
+      );
+    }
+
+    case 'ordering': {
+      const items = Array.isArray(answer) ? answer : question.items;
+      const move = (from: number, to: number) => {
+        const next = [...items];
+        [next[from], next[to]] = [next[to], next[from]];
+        onChange(next);
+      };
+      return (
+        <>
+          <p className="text-sm text-gray-500 mb-2">Use the arrows to put the items in order.</p>
+          <ol className="space-y-2">
+            {items.map((item, index) => (
+              <li key={item} className="flex items-center gap-2 p-2 border-2 border-gray-300 rounded-md bg-white">
+                <span className="font-semibold text-gray-500 w-6 text-right">{index + 1}.</span>
+                <span className="flex-1 text-gray-800">{item}</span>
+                <button
+                  onClick={() => move(index, index - 1)}
+                  disabled={index === 0}
+                  className="p-1 rounded hover:bg-slate-100 disabled:opacity-30"
+                  aria-label={`Move "${item}" up`}
+                >
+                  <ArrowUp size={16} />
+                </button>
+                <button
+                  onClick={() => move(index, index + 1)}
+                  disabled={index === items.length - 1}
+                  className="p-1 rounded hover:bg-slate-100 disabled:opacity-30"
+                  aria-label={`Move "${item}" down`}
+                >
+                  <ArrowDown size={16} />
+                </button>
+              </li>
+            ))}
+          </ol>
+        </>
+      );
+    }
+
+    case 'free_text':
+      return (
+        <textarea
+          value={typeof answer === 'string' ? answer : ''}
+          onChange={(e) => onChange(e.target.value)}
+          rows={3}
+          className="w-full p-2 border-2 border-gray-300 rounded-md focus:outline-none focus:border-blue-500"
+          placeholder="Answer in a sentence or two..."
+        />
+      );
+  }
+};
+
+export default QuizQuestionInput;
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Loader2, MessageCircleQuestion } from 'lucide-react';
+import ErrorNotice from './ErrorNotice';
+import { formatAnswer, formatCorrectAnswer } from '../services/quizService';
+import type { FreeTextGrade, QuizAnswer, QuizQuestion, QuizSource } from '../types';
+
+interface QuizReviewItemProps {
+  question: QuizQuestion;
+  index: number;
+  answer: QuizAnswer | undefined;
+  correct: boolean;
+  grade?: FreeTextGrade;
+  gradeError?: Error; // Set while a free-text answer is ungraded because grading failed
+  onRetryGrade: () => Promise<void>;
+  sourceHref: (source: QuizSource) => string;
+  onExplainMore: () => Promise<string>;
+}
+
+// Component for reviewing one answered quiz question, with its explanation and source
+const QuizReviewItem: React.FC<QuizReviewItemProps> = ({ question, index, answer, correct, grade, gradeError, onRetryGrade, sourceHref, onExplainMore }) => {
+  const [more, setMore] = useState<string | null>(null);
+  const [explaining, setExplaining] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [regrading, setRegrading] = useState(false);
+
+  const handleExplainMore = async () => {
+    setExplaining(true);
+    setError(null);
+    try {
+      setMore(await onExplainMore());
+    } catch (err: any) {
+      setError(err);
+    } finally {
+      setExplaining(false);
+    }
+  };
+
+  const handleRetryGrade = async () => {
+    setRegrading(true);
+    await onRetryGrade();
+    setRegrading(false);
+  };
+
+  const answerClass = gradeError ? 'font-bold text-gray-700' : correct ? 'font-bold text-green-600' : 'font-bold text-red-600';
+
+  return (
+    <div className="mb-6 p-4 border border-slate-200 rounded-md bg-white shadow-sm text-left">
+      <p className="font-semibold text-gray-800 text-lg mb-2">{`${index + 1}. ${question.question}`}</p>
+      <p className="text-gray-600 mb-2">
+        Your Answer: <span className={answerClass}>{formatAnswer(question, answer)}</span>
+      </p>
+      {!correct && !gradeError && <p className="text-gray-600">
+        {question.type === 'free_text' ? 'Reference Answer' : 'Correct Answer'}: <span className="font-bold text-green-600">{formatCorrectAnswer(question)}</span>
+      </p>}
+      {grade?.feedback && <p className="text-gray-600 mt-2 italic">{grade.feedback}</p>}
+      {gradeError && (regrading ? (
+        <p className="flex items-center mt-2 text-sm text-slate-500">
+          <Loader2 size={14} className="animate-spin mr-1" />
+          Grading...
+        </p>
+      ) : (
+        <ErrorNotice error={gradeError} onRetry={handleRetryGrade} className="mt-2" />
+      ))}
+
+      <div className="mt-3 pt-3 border-t border-slate-100 text-sm text-gray-700 space-y-2">
+        <p><span className="font-semibold">Why:</span> {question.explanation}</p>
+        {question.source && (
+          <p className="text-gray-600">
+            <span className="font-semibold">Source:</span>{' '}
+            <a href={sourceHref(question.source)} className="text-blue-600 hover:underline italic">
+              “{question.source.quote}”
+            </a>
+            {!question.source.verified && (
+              <span className="ml-1.5 px-1 py-0.5 rounded-sm text-[10px] bg-slate-100 text-slate-500">QUOTE NOT FOUND</span>
+            )}
+          </p>
+        )}
+        {more && <p className="p-2 bg-slate-50 rounded-md whitespace-pre-line">{more}</p>}
+        {error && !explaining ? (
+          <ErrorNotice error={error} onRetry={handleExplainMore} />
+        ) : !more && (
+          <button
+            onClick={handleExplainMore}
+            disabled={explaining}
+            className="flex items-center text-blue-600 hover:text-blue-800 transition-colors disabled:opacity-50"
+          >
+            {explaining
+              ? <Loader2 size={14} className="animate-spin mr-1" />
+              : <MessageCircleQuestion size={14} className="mr-1" />}
+            Explain more
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuizReviewItem;
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import type { SearchHit } from '../services/searchService';
+
+interface SearchResultsProps {
+  hits: SearchHit[];
+  onSelect: (hit: SearchHit) => void;
+}
+
+// Renders a snippet with its matched ranges emphasised.
+const Snippet: React.FC<{ hit: SearchHit }> = ({ hit }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  hit.highlights.forEach(([start, end], index) => {
+    if (start > cursor) parts.push(hit.snippet.slice(cursor, start));
+    parts.push(<mark key={index} className="bg-yellow-300 font-bold">{hit.snippet.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(hit.snippet.slice(cursor));
+  return <>{parts}</>;
+};
+
+// Dropdown of ranked search hits shown under the header search box
+const SearchResults: React.FC<SearchResultsProps> = ({ hits, onSelect }) => (
+  <div className="absolute left-0 right-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg max-h-96 overflow-y-auto z-20">
+    {hits.length === 0 ? (
+      <p className="p-3 text-sm text-gray-500">No matches found.</p>
+    ) : (
+      <ul role="listbox">
+        {hits.map((hit, index) => (
+          <li key={index}>
+            <button
+              // Keep focus in the search box so the dropdown does not close before the click lands.
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => onSelect(hit)}
+              className="w-full text-left p-3 hover:bg-slate-100 border-b border-gray-100 last:border-b-0"
+            >
+              <p className="text-sm font-semibold text-slate-700 truncate">{hit.passage.title || 'Document'}</p>
+              <p className="text-xs text-gray-600 mt-1"><Snippet hit={hit} /></p>
+            </button>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export default SearchResults;
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { Loader2, Trash2 } from 'lucide-react';
+import { getCacheStats, clearCache } from '../services/cacheService';
+import type { CacheStats } from '../services/cacheService';
+import { getProvider } from '../services/llmProvider';
+import type { LlmTask } from '../services/llmProvider';
+
+const TASK_LABELS: Record<LlmTask, string> = {
+  summary: 'Summaries',
+  answer: 'Answers',
+  quiz: 'Quizzes',
+  grade: 'Grades',
+  explain: 'Explanations',
+  flashcards: 'Flashcards',
+  sources: 'Source answers',
+  glossary: 'Glossaries',
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Component for app settings: the active model provider and the cache of generated results
+const Settings: React.FC = () => {
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [clearing, setClearing] = useState(false);
+
+  const loadStats = async () => {
+    try {
+      setStats(await getCacheStats());
+      setError(null);
+    } catch (err) {
+      console.error('Error reading cache:', err);
+      setError('The cache is not available in this browser.');
+    }
+  };
+
+  useEffect(() => {
+    loadStats();
+  }, []);
+
+  const handleClear = async () => {
+    setClearing(true);
+    try {
+      await clearCache();
+    } catch (err) {
+      console.error('Error clearing cache:', err);
+    } finally {
+      await loadStats();
+      setClearing(false);
+    }
+  };
+
+  return (
+    <div className="p-4 md:p-8 flex flex-col items-center">
+      <div className="w-full max-w-2xl bg-gray-50 rounded-lg shadow-lg p-6 space-y-6">
+        <h2 className="text-2xl font-semibold text-gray-800 text-center">Settings</h2>
+
+        <section>
+          <h3 className="text-lg font-semibold text-slate-700 mb-1">Model</h3>
+          <p className="text-gray-700">{getProvider().label}</p>
+        </section>
+
+        <section>
+          <h3 className="text-lg font-semibold text-slate-700 mb-1">Cache</h3>
+          <p className="text-sm text-gray-600 mb-3">
+            Generated summaries, answers and quiz explanations are stored in this browser and reused until the document text or the model changes.
+          </p>
+          {error ? (
+            <p className="text-red-600">{error}</p>
+          ) : !stats ? (
+            <Loader2 className="animate-spin text-slate-500" size={24} />
+          ) : (
+            <div className="flex items-center justify-between gap-4">
+              <div className="text-gray-700">
+                <p>{stats.entries} cached {stats.entries === 1 ? 'result' : 'results'} ({formatBytes(stats.bytes)})</p>
+                {stats.entries > 0 && (
+                  <p className="text-sm text-gray-500">
+                    {Object.entries(stats.byTask).map(([task, count]) => `${TASK_LABELS[task as LlmTask] ?? task}: ${count}`).join(' · ')}
+                  </p>
+                )}
+              </div>
+              <button
+                onClick={handleClear}
+                disabled={clearing || stats.entries === 0}
+                className="flex items-center px-4 py-2 rounded-lg bg-red-600 text-white hover:bg-red-700 transition-colors disabled:opacity-50"
+              >
+                <Trash2 size={16} className="mr-2" />
+                Clear cache
+              </button>
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef } from 'react';
+import ChatInterface from './ChatInterface';
+import KnowledgeBaseManager from './KnowledgeBaseManager';
+import ErrorNotice from './ErrorNotice';
+import { streamSourcesAnswer } from '../services/geminiService';
+import { createMessage } from '../services/chatMessage';
+import { toLlmError } from '../services/llmErrors';
+import { loadUrlGroups, saveUrlGroups } from '../services/urlGroupStore';
+import { MessageSender } from '../types';
+import type { ChatMessage } from '../types';
+
+// Component for chatting about a group of web pages, which the model reads through URL context
+const Sources: React.FC = () => {
+  const [library, setLibrary] = useState(loadUrlGroups);
+  const [messages, setMessages] = useState<ChatMessage[]>(() => [
+    createMessage(MessageSender.SYSTEM, 'Add web pages to the active group, then ask questions about them. Each answer lists which pages could be read.'),
+  ]);
+  const [loading, setLoading] = useState(false);
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [saveError, setSaveError] = useState<Error | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+
+  const { groups, activeGroupId } = library;
+  const activeGroup = groups.find(group => group.id === activeGroupId) ?? groups[0];
+
+  // Storage can be full or blocked; the groups still work until the page is closed.
+  useEffect(() => {
+    try {
+      saveUrlGroups(library);
+      setSaveError(null);
+    } catch (error) {
+      console.error('Error saving URL groups:', error);
+      const reason = error instanceof Error ? ` ${error.message}` : '';
+      setSaveError(new Error(`Your URL groups could not be saved, so changes will be lost when you leave.${reason}`));
+    }
+  }, [library]);
+
+  const updateMessage = (id: string, update: (message: ChatMessage) => ChatMessage) => {
+    setMessages(prev => prev.map(message => message.id === id ? update(message) : message));
+  };
+
+  // Streams the answer into a new message and attaches the retrieval status of every URL
+  const ask = async (text: string) => {
+    if (activeGroup.urls.length === 0) {
+      setMessages(prev => [...prev, createMessage(MessageSender.SYSTEM, `Add at least one URL to "${activeGroup.name}" before asking.`)]);
+      return;
+    }
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const history = messagesRef.current;
+    const userMessage = createMessage(MessageSender.USER, text);
+    const modelMessage = createMessage(MessageSender.MODEL, '', true);
+    setMessages(prev => [...prev, userMessage, modelMessage]);
+    setLoading(true);
+
+    try {
+      const stream = streamSourcesAnswer(activeGroup.urls.map(source => source.url), history, text, controller.signal);
+      let step = await stream.next();
+      while (!step.done) {
+        const chunk = step.value;
+        updateMessage(modelMessage.id, message => ({ ...message, text: message.text + chunk, isLoading: false }));
+        step = await stream.next();
+      }
+      const urlContext = step.value;
+      if (!controller.signal.aborted) {
+        updateMessage(modelMessage.id, message => ({ ...message, isLoading: false, urlContext }));
+      }
+    } catch (error) {
+      console.error('Error answering from sources:', error);
+      const failure = toLlmError(error);
+      updateMessage(modelMessage.id, message => ({
+        ...message,
+        sender: MessageSender.SYSTEM,
+        text: failure.message,
+        error: failure.kind,
+        isLoading: false,
+      }));
+    } finally {
+      // A reply that was stopped before any text arrived has nothing worth keeping. If a newer
+      // request replaced it, drop the unanswered question as well.
+      const superseded = abortRef.current !== null && abortRef.current !== controller;
+      setMessages(prev => prev.some(message => message.id === modelMessage.id && message.isLoading)
+        ? prev.filter(message => message.id !== modelMessage.id && !(superseded && message.id === userMessage.id))
+        : prev);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoading(false);
+      }
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setLoading(false);
+    setMessages(prev => [...prev, createMessage(MessageSender.SYSTEM, 'Answer stopped.')]);
+  };
+
+  // Drops a failed answer and the question before it, then asks that question again.
+  const handleRetry = (failed: ChatMessage) => {
+    const history = messagesRef.current;
+    let questionIndex = history.findIndex(message => message.id === failed.id) - 1;
+    while (questionIndex >= 0 && history[questionIndex].sender !== MessageSender.USER) questionIndex--;
+    if (questionIndex < 0) return;
+    const trimmed = history.slice(0, questionIndex);
+    messagesRef.current = trimmed;
+    setMessages(trimmed);
+    ask(history[questionIndex].text);
+  };
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  return (
+    <div className="p-4 md:p-8 flex justify-center">
+      <div className="w-full max-w-5xl h-[70vh] flex gap-4 relative">
+        <div className={`${sidebarOpen ? 'block' : 'hidden'} md:block absolute md:static inset-0 z-20 md:w-80 flex-shrink-0`}>
+          <KnowledgeBaseManager
+            urlGroups={groups}
+            activeUrlGroupId={activeGroup.id}
+            onSetGroupId={(id) => setLibrary(prev => ({ ...prev, activeGroupId: id }))}
+            onChangeGroups={(next) => setLibrary(prev => ({ ...prev, groups: next }))}
+            onCloseSidebar={() => setSidebarOpen(false)}
+          />
+        </div>
+        <div className="flex-1 min-w-0 flex flex-col">
+          {saveError && <ErrorNotice error={saveError} onRetry={() => setLibrary(prev => ({ ...prev }))} className="mb-2" />}
+          <div className="flex-1 min-h-0">
+            <ChatInterface
+              title="Ask Your Sources"
+              placeholderText={`${activeGroup.name}: ${activeGroup.urls.length} ${activeGroup.urls.length === 1 ? 'URL' : 'URLs'}`}
+              inputPlaceholder="Ask about the pages in the active group..."
+              messages={messages}
+              onSendMessage={ask}
+              onStop={handleStop}
+              onRetry={handleRetry}
+              isLoading={loading}
+              onToggleSidebar={() => setSidebarOpen(true)}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Sources;
@@ -0,0 +1,330 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ChevronLeft, ChevronRight, Loader2, RefreshCw, Layers, Square } from 'lucide-react';
+import ErrorNotice from './ErrorNotice';
+import { generateSummary, generateDocumentSummary } from '../services/geminiService';
+import { parseSections, flattenOutline, renderMarkdown } from '../services/documentParser';
+import type { OutlineNode } from '../services/documentParser';
+import { mapWithConcurrency } from '../services/concurrency';
+import type { Document, SummaryStyle } from '../types';
+
+interface SummariesProps {
+  document: Document;
+  sectionId?: string; // Anchor of the section, or of anything inside it, to show
+  onSectionChange: (id: string) => void;
+}
+
+const STYLES: { style: SummaryStyle; label: string }[] = [
+  { style: 'tldr', label: 'TL;DR' },
+  { style: 'paragraph', label: 'Paragraph' },
+  { style: 'outline', label: 'Outline' },
+  { style: 'eli5', label: 'ELI5' },
+  { style: 'expert', label: 'Expert' },
+];
+
+// Sections summarized at once by "Summarize all".
+const BATCH_CONCURRENCY = 3;
+
+interface Progress {
+  label: string;
+  done: number;
+  total: number;
+}
+
+const ProgressBar: React.FC<Progress & { onStop?: () => void }> = ({ label, done, total, onStop }) => (
+  <div className="mb-4" role="status">
+    <div className="flex justify-between items-center text-sm text-gray-600 mb-1">
+      <span>{label} ({done} of {total})</span>
+      {onStop && (
+        <button onClick={onStop} className="flex items-center text-gray-500 hover:text-red-600">
+          <Square size={12} className="mr-1" />
+          Stop
+        </button>
+      )}
+    </div>
+    <div className="h-2 rounded-full bg-slate-200 overflow-hidden">
+      <div className="h-full bg-blue-600 transition-all" style={{ width: `${total === 0 ? 0 : (done / total) * 100}%` }} />
+    </div>
+  </div>
+);
+
+const SummaryText: React.FC<{ text: string }> = ({ text }) => (
+  <div
+    className="prose prose-slate max-w-none text-gray-700 leading-relaxed"
+    dangerouslySetInnerHTML={{ __html: renderMarkdown(text) }}
+  />
+);
+
+// Component for generating and displaying summaries
+const Summaries: React.FC<SummariesProps> = ({ document, sectionId, onSectionChange }) => {
+  const sections = useMemo(() => parseSections(document.body), [document.body]);
+  const [mode, setMode] = useState<'sections' | 'document'>('sections');
+  const [style, setStyle] = useState<SummaryStyle>('paragraph');
+  // Keyed by style and section id, so switching styles keeps what was already generated.
+  const [summaries, setSummaries] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, Error | undefined>>({});
+  const [loading, setLoading] = useState<Record<string, boolean>>({});
+  const [batch, setBatch] = useState<Progress | null>(null);
+  const batchRef = useRef<AbortController | null>(null);
+  const [overviews, setOverviews] = useState<Partial<Record<SummaryStyle, string>>>({});
+  const [overviewProgress, setOverviewProgress] = useState<Progress | null>(null);
+  const [overviewError, setOverviewError] = useState<Error | null>(null);
+  const overviewRef = useRef<AbortController | null>(null);
+  const currentSectionIndex = Math.max(0, sections.findIndex(section =>
+    section.id === sectionId || flattenOutline(section.children).some(node => node.id === sectionId)));
+
+  const keyOf = (section: OutlineNode, summaryStyle: SummaryStyle = style) => `${summaryStyle}:${section.id}`;
+
+  // Generates a summary for a given section, or reads it from the cache unless `refresh` is set
+  const callGenerateSummary = async (section: OutlineNode, summaryStyle: SummaryStyle, refresh = false, signal?: AbortSignal) => {
+    const key = keyOf(section, summaryStyle);
+    setLoading(prev => ({ ...prev, [key]: true }));
+    setErrors(prev => ({ ...prev, [key]: undefined }));
+    try {
+        const summaryText = await generateSummary(section.title, section.content, {
+          style: summaryStyle,
+          documentTitle: document.title,
+          refresh,
+          signal,
+        });
+        setSummaries(prev => ({ ...prev, [key]: summaryText }));
+    } catch (error: any) {
+        if (!signal?.aborted) {
+          console.error('Error generating summary:', error);
+          setErrors(prev => ({ ...prev, [key]: error }));
+        }
+    } finally {
+        setLoading(prev => ({ ...prev, [key]: false }));
+    }
+  };
+
+  useEffect(() => {
+    const currentSection = sections[currentSectionIndex];
+    if (mode !== 'sections' || !currentSection) return;
+    const key = keyOf(currentSection);
+    if (!summaries[key] && !loading[key] && !errors[key]) {
+      callGenerateSummary(currentSection, style);
+    }
+  }, [mode, style, currentSectionIndex, sections, summaries, loading, errors]);
+
+  useEffect(() => () => {
+    batchRef.current?.abort();
+    overviewRef.current?.abort();
+  }, []);
+
+  // Prefetches every section not yet summarized in the current style, a few at a time.
+  const summarizeAll = async () => {
+    const pending = sections.filter(section => !summaries[keyOf(section)] && !loading[keyOf(section)]);
+    if (pending.length === 0) return;
+    const controller = new AbortController();
+    batchRef.current = controller;
+    const label = `Summarizing sections as ${STYLES.find(option => option.style === style)!.label}`;
+    let done = 0;
+    setBatch({ label, done, total: pending.length });
+    await mapWithConcurrency(pending, BATCH_CONCURRENCY, async (section: OutlineNode) => {
+      await callGenerateSummary(section, style, false, controller.signal);
+      if (!controller.signal.aborted) setBatch({ label, done: ++done, total: pending.length });
+    }, controller.signal);
+    if (batchRef.current === controller) {
+      batchRef.current = null;
+      setBatch(null);
+    }
+  };
+
+  const stopBatch = () => {
+    batchRef.current?.abort();
+    batchRef.current = null;
+    setBatch(null);
+  };
+
+  const generateOverview = async (refresh = false) => {
+    overviewRef.current?.abort();
+    const controller = new AbortController();
+    overviewRef.current = controller;
+    setOverviewError(null);
+    try {
+      const overview = await generateDocumentSummary(document.title, sections, {
+        style,
+        refresh,
+        signal: controller.signal,
+        onProgress: ({ stage, done, total }) => {
+          if (!controller.signal.aborted) {
+            setOverviewProgress({ label: stage === 'sections' ? 'Summarizing sections' : 'Combining section summaries', done, total });
+          }
+        },
+      });
+      setOverviews(prev => ({ ...prev, [style]: overview }));
+    } catch (error: any) {
+      if (!controller.signal.aborted) {
+        console.error('Error generating document summary:', error);
+        setOverviewError(error);
+      }
+    } finally {
+      if (overviewRef.current === controller) {
+        overviewRef.current = null;
+        setOverviewProgress(null);
+      }
+    }
+  };
+
+  const stopOverview = () => {
+    overviewRef.current?.abort();
+    overviewRef.current = null;
+    setOverviewProgress(null);
+  };
+
+  const handleNext = () => {
+    if (currentSectionIndex < sections.length - 1) {
+      onSectionChange(sections[currentSectionIndex + 1].id);
+    }
+  };
+
+  const handlePrev = () => {
+    if (currentSectionIndex > 0) {
+      onSectionChange(sections[currentSectionIndex - 1].id);
+    }
+  };
+
+  const currentSection = sections[currentSectionIndex];
+  const currentKey = currentSection ? keyOf(currentSection) : '';
+  const currentSummary = summaries[currentKey];
+  const summarizedCount = sections.filter(section => summaries[keyOf(section)]).length;
+  const overview = overviews[style];
+
+  return (
+    <div className="p-4 md:p-8 flex flex-col items-center">
+      <div className="w-full max-w-2xl bg-gray-50 rounded-lg shadow-lg p-6">
+        <h2 className="text-2xl font-semibold text-gray-800 mb-4 text-center">Summaries</h2>
+
+        <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+          <div className="flex rounded-lg bg-slate-200 p-0.5" role="tablist" aria-label="Summary scope">
+            {(['sections', 'document'] as const).map(option => (
+              <button
+                key={option}
+                role="tab"
+                aria-selected={mode === option}
+                onClick={() => setMode(option)}
+                className={`px-3 py-1 text-sm rounded-md transition-colors ${mode === option ? 'bg-white shadow-sm text-slate-800' : 'text-slate-600 hover:text-slate-800'}`}
+              >
+                {option === 'sections' ? 'By section' : 'Whole document'}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Style
+            <select
+              value={style}
+              onChange={(e) => setStyle(e.target.value as SummaryStyle)}
+              className="py-1 px-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {STYLES.map(option => <option key={option.style} value={option.style}>{option.label}</option>)}
+            </select>
+          </label>
+        </div>
+
+        {mode === 'sections' ? (
+          <>
+            {batch ? (
+              <ProgressBar {...batch} onStop={stopBatch} />
+            ) : (
+              <div className="flex justify-between items-center mb-4 text-sm text-gray-500">
+                <span>{summarizedCount} of {sections.length} sections summarized</span>
+                <button
+                  onClick={summarizeAll}
+                  disabled={summarizedCount === sections.length}
+                  className="flex items-center text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                >
+                  <Layers size={14} className="mr-1" />
+                  Summarize all
+                </button>
+              </div>
+            )}
+            <div className="flex justify-between items-center mb-4">
+              <button
+                onClick={handlePrev}
+                disabled={currentSectionIndex === 0}
+                className="p-2 rounded-full bg-slate-200 hover:bg-slate-300 transition-colors disabled:opacity-50"
+                aria-label="Previous section"
+              >
+                <ChevronLeft size={24} />
+              </button>
+              <div className="text-xl font-bold text-slate-700 text-center flex-1 mx-2">
+                {currentSection?.title}
+              </div>
+              <button
+                onClick={handleNext}
+                disabled={currentSectionIndex === sections.length - 1}
+                className="p-2 rounded-full bg-slate-200 hover:bg-slate-300 transition-colors disabled:opacity-50"
+                aria-label="Next section"
+              >
+                <ChevronRight size={24} />
+              </button>
+            </div>
+            <div className="min-h-[150px] flex items-center justify-center p-4">
+              {loading[currentKey] ? (
+                <div className="flex flex-col items-center">
+                  <Loader2 className="animate-spin text-slate-500 mb-2" size={32} />
+                  <p className="text-slate-500">Generating summary...</p>
+                </div>
+              ) : errors[currentKey] ? (
+                <ErrorNotice error={errors[currentKey]!} onRetry={() => callGenerateSummary(currentSection, style)} className="w-full" />
+              ) : (
+                currentSummary && <SummaryText text={currentSummary} />
+              )}
+            </div>
+            {currentSection && currentSummary && !loading[currentKey] && (
+              <div className="flex justify-end">
+                <button
+                  onClick={() => callGenerateSummary(currentSection, style, true)}
+                  className="flex items-center text-sm text-slate-600 hover:text-slate-800 transition-colors"
+                >
+                  <RefreshCw size={14} className="mr-1" />
+                  Regenerate
+                </button>
+              </div>
+            )}
+          </>
+        ) : (
+          <>
+            {overviewProgress && <ProgressBar {...overviewProgress} onStop={stopOverview} />}
+            {overviewError && <ErrorNotice error={overviewError} onRetry={() => generateOverview(!!overview)} className="mb-4" />}
+            {overview && !overviewProgress ? (
+              <>
+                <div className="p-4">
+                  <SummaryText text={overview} />
+                </div>
+                <div className="flex justify-end">
+                  <button
+                    onClick={() => generateOverview(true)}
+                    className="flex items-center text-sm text-slate-600 hover:text-slate-800 transition-colors"
+                  >
+                    <RefreshCw size={14} className="mr-1" />
+                    Regenerate
+                  </button>
+                </div>
+              </>
+            ) : !overviewProgress && (
+              <div className="text-center py-8">
+                <p className="text-gray-600 mb-3">
+                  An executive summary of "{document.title}", built from a summary of each of its {sections.length} sections.
+                </p>
+                <button
+                  onClick={() => generateOverview()}
+                  className="bg-blue-600 text-white font-semibold py-2 px-4 rounded-md hover:bg-blue-700 transition-colors"
+                >
+                  Generate executive summary
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Summaries;
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import type { OutlineNode } from '../services/documentParser';
+
+interface TableOfContentsProps {
+  outline: OutlineNode[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+}
+
+const TocEntries: React.FC<TableOfContentsProps & { level: number }> = ({ outline, activeId, onSelect, level }) => (
+  <ul className={level > 0 ? 'ml-3 border-l border-slate-200 pl-2' : ''}>
+    {outline.map(node => (
+      <li key={node.id}>
+        <a
+          href={`#${node.id}`}
+          onClick={(e) => {
+            e.preventDefault();
+            onSelect(node.id);
+          }}
+          className={`block py-1 px-2 rounded-md text-sm transition-colors ${
+            node.id === activeId
+              ? 'bg-blue-100 text-blue-700 font-semibold'
+              : node.kind === 'concept'
+                ? 'text-slate-500 hover:bg-slate-100'
+                : 'text-slate-700 hover:bg-slate-100'
+          }`}
+          aria-current={node.id === activeId ? 'location' : undefined}
+        >
+          {node.kind === 'concept' ? node.title.split(':')[0] : node.title}
+        </a>
+        {node.children.length > 0 && (
+          <TocEntries outline={node.children} activeId={activeId} onSelect={onSelect} level={level + 1} />
+        )}
+      </li>
+    ))}
+  </ul>
+);
+
+// Sidebar listing the document's headings and named concepts
+const TableOfContents: React.FC<TableOfContentsProps> = (props) => (
+  <nav aria-label="Table of contents">
+    <h2 className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-2 px-2">Contents</h2>
+    <TocEntries {...props} level={0} />
+  </nav>
+);
+
+export default TableOfContents;
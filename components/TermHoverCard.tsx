@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef } from 'react';
+import { BookOpen, Network } from 'lucide-react';
+import type { GlossaryTerm } from '../types';
+
+interface TermHoverCardProps {
+  terms: GlossaryTerm[];
+  onReadInReport: (term: GlossaryTerm) => void;
+  onOpenInGlossary: (term: GlossaryTerm) => void;
+}
+
+// How long the card stays up after the pointer leaves the term, so it can be moved onto the card.
+const HIDE_DELAY_MS = 200;
+
+interface OpenCard {
+  term: GlossaryTerm;
+  top: number;
+  left: number;
+}
+
+const termLinkOf = (target: EventTarget | null): HTMLElement | null => {
+  return target instanceof Element ? target.closest<HTMLElement>('mark[data-highlight="term"]') : null;
+};
+
+// Component for the definition card shown over a glossary term linked anywhere on the page
+const TermHoverCard: React.FC<TermHoverCardProps> = ({ terms, onReadInReport, onOpenInGlossary }) => {
+  const [card, setCard] = useState<OpenCard | null>(null);
+  const cardRef = useRef<HTMLDivElement>(null);
+  const hideTimer = useRef<number>(0);
+
+  useEffect(() => {
+    const show = (link: HTMLElement) => {
+      const term = terms.find(candidate => candidate.id === link.dataset.highlightId);
+      if (!term) return;
+      window.clearTimeout(hideTimer.current);
+      const rect = link.getBoundingClientRect();
+      setCard({ term, top: rect.bottom + 6, left: Math.max(8, Math.min(rect.left, window.innerWidth - 328)) });
+    };
+    const hideSoon = () => {
+      window.clearTimeout(hideTimer.current);
+      hideTimer.current = window.setTimeout(() => setCard(null), HIDE_DELAY_MS);
+    };
+    const onOver = (e: Event) => {
+      const link = termLinkOf(e.target);
+      if (link) show(link);
+      else if (cardRef.current?.contains(e.target as Node)) window.clearTimeout(hideTimer.current);
+    };
+    const onOut = (e: MouseEvent | FocusEvent) => {
+      const next = e.relatedTarget as Node | null;
+      if (next && (cardRef.current?.contains(next) || termLinkOf(next))) return;
+      if (termLinkOf(e.target) || cardRef.current?.contains(e.target as Node)) hideSoon();
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setCard(null);
+    };
+    const onScroll = () => setCard(null);
+
+    window.document.addEventListener('mouseover', onOver);
+    window.document.addEventListener('mouseout', onOut);
+    window.document.addEventListener('focusin', onOver);
+    window.document.addEventListener('focusout', onOut);
+    window.document.addEventListener('keydown', onKeyDown);
+    window.addEventListener('scroll', onScroll, { passive: true });
+    return () => {
+      window.document.removeEventListener('mouseover', onOver);
+      window.document.removeEventListener('mouseout', onOut);
+      window.document.removeEventListener('focusin', onOver);
+      window.document.removeEventListener('focusout', onOut);
+      window.document.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('scroll', onScroll);
+      window.clearTimeout(hideTimer.current);
+    };
+  }, [terms]);
+
+  if (!card) return null;
+  const { term } = card;
+
+  return (
+    <div
+      ref={cardRef}
+      role="tooltip"
+      className="fixed z-40 w-80 p-3 bg-white rounded-lg shadow-xl border border-slate-200 text-sm text-gray-700"
+      style={{ top: card.top, left: card.left }}
+    >
+      <p className="font-semibold text-slate-800">{term.term}</p>
+      {term.aliases.length > 0 && <p className="text-xs text-gray-500">Also: {term.aliases.join(', ')}</p>}
+      <p className="mt-1">{term.definition}</p>
+      <div className="flex gap-3 mt-2 pt-2 border-t border-slate-100">
+        {term.anchor && (
+          <button
+            onClick={() => { setCard(null); onReadInReport(term); }}
+            className="flex items-center text-xs text-blue-600 hover:text-blue-800"
+          >
+            <BookOpen size={12} className="mr-1" />
+            Read in report
+          </button>
+        )}
+        <button
+          onClick={() => { setCard(null); onOpenInGlossary(term); }}
+          className="flex items-center text-xs text-blue-600 hover:text-blue-800"
+        >
+          <Network size={12} className="mr-1" />
+          Open in glossary
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TermHoverCard;
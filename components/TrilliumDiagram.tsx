@@ -0,0 +1,258 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { BookOpen, Loader2, MessageSquare } from 'lucide-react';
+import ErrorNotice from './ErrorNotice';
+import { generateSummary } from '../services/geminiService';
+import { renderMarkdown } from '../services/documentParser';
+import { linkGlossaryTerms } from '../services/glossaryService';
+import { DIAGRAM_ELEMENTS, resolveDiagramSections } from '../services/trilliumDiagram';
+import type { DiagramElementId } from '../services/trilliumDiagram';
+import type { Document, GlossaryTerm } from '../types';
+
+interface TrilliumDiagramProps {
+  document: Document;
+  sectionId?: string; // Anchor from the URL; opens the first element discussed there
+  glossaryTerms: GlossaryTerm[];
+  onSectionChange: (id: string) => void;
+  onReadInReport: (id: string) => void;
+  onAsk: (question: string) => void;
+}
+
+const SELECTED_STROKE = '#1d4ed8';
+
+// Corners of the Square, clockwise from the top left.
+const PILLARS: { id: DiagramElementId; x: number; y: number }[] = [
+  { id: 'visual', x: 70, y: 70 },
+  { id: 'physical', x: 530, y: 70 },
+  { id: 'emotional', x: 530, y: 530 },
+  { id: 'mental', x: 70, y: 530 },
+];
+
+const SCALE: { id: DiagramElementId; x: number; symbol: string; fill: string; lines: string[] }[] = [
+  { id: 'reflective-wave', x: 170, symbol: '-1', fill: '#ede9fe', lines: ['Reflective', 'Wave'] },
+  { id: 'consciousness-filter', x: 300, symbol: '0', fill: '#dbeafe', lines: ['Consciousness', 'Filter'] },
+  { id: 'probabilistic-landscape', x: 430, symbol: '+1', fill: '#d1fae5', lines: ['Probabilistic', 'Landscape'] },
+];
+
+// Quarter arcs of the Circle, each ending in an arrow so the loop reads clockwise.
+const CIRCLE_ARCS = ['M 300 110 A 190 190 0 0 1 490 300', 'M 490 300 A 190 190 0 0 1 300 490', 'M 300 490 A 190 190 0 0 1 110 300', 'M 110 300 A 190 190 0 0 1 300 110'];
+
+interface RegionProps {
+  id: DiagramElementId;
+  label: string;
+  disabled: boolean;
+  selected: boolean;
+  onSelect: (id: DiagramElementId) => void;
+  children: React.ReactNode;
+}
+
+const Region: React.FC<RegionProps> = ({ id, label, disabled, selected, onSelect, children }) => (
+  <g
+    role="button"
+    tabIndex={disabled ? -1 : 0}
+    aria-label={label}
+    aria-pressed={selected}
+    aria-disabled={disabled}
+    opacity={disabled ? 0.4 : 1}
+    className={disabled ? 'cursor-not-allowed' : 'cursor-pointer'}
+    onClick={() => !disabled && onSelect(id)}
+    onKeyDown={(e) => {
+      if (!disabled && (e.key === 'Enter' || e.key === ' ')) {
+        e.preventDefault();
+        onSelect(id);
+      }
+    }}
+  >
+    <title>{label}</title>
+    {children}
+  </g>
+);
+
+// Component for an interactive diagram of the Trillium Model linked to the document's sections
+const TrilliumDiagram: React.FC<TrilliumDiagramProps> = ({ document, sectionId, glossaryTerms, onSectionChange, onReadInReport, onAsk }) => {
+  const sections = useMemo(() => resolveDiagramSections(document.body), [document.body]);
+  const [selectedId, setSelectedId] = useState<DiagramElementId | null>(
+    () => DIAGRAM_ELEMENTS.find(element => sections[element.id] && sections[element.id]!.id === sectionId)?.id ?? null
+  );
+  const [summaries, setSummaries] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, Error | undefined>>({});
+  // Bumped by Retry so the summary request runs again for the same section.
+  const [attempt, setAttempt] = useState(0);
+  const sectionRef = useRef<HTMLDivElement>(null);
+
+  const selected = DIAGRAM_ELEMENTS.find(element => element.id === selectedId);
+  const node = selectedId ? sections[selectedId] : null;
+  const sectionHtml = useMemo(() => node ? renderMarkdown(node.content) : '', [node]);
+  const covered = DIAGRAM_ELEMENTS.filter(element => sections[element.id]).length;
+
+  const select = (id: DiagramElementId) => {
+    setSelectedId(id);
+    const section = sections[id];
+    if (section) onSectionChange(section.id);
+  };
+
+  // Summaries are cached by the service, so elements sharing a section only ask once.
+  useEffect(() => {
+    if (!node || summaries[node.id] || errors[node.id]) return;
+    let cancelled = false;
+    generateSummary(node.title, node.content, { documentTitle: document.title })
+      .then(summary => { if (!cancelled) setSummaries(prev => ({ ...prev, [node.id]: summary })); })
+      .catch(error => { if (!cancelled) setErrors(prev => ({ ...prev, [node.id]: error })); });
+    return () => { cancelled = true; };
+  }, [node, attempt]);
+
+  useEffect(() => {
+    if (sectionRef.current) linkGlossaryTerms(sectionRef.current, glossaryTerms);
+  }, [sectionHtml, glossaryTerms]);
+
+  const regionProps = (id: DiagramElementId) => ({
+    id,
+    label: DIAGRAM_ELEMENTS.find(element => element.id === id)!.label,
+    disabled: !sections[id],
+    selected: id === selectedId,
+    onSelect: select,
+  });
+  const strokeFor = (id: DiagramElementId, stroke: string) => id === selectedId ? SELECTED_STROKE : stroke;
+
+  return (
+    <div className="p-4 md:p-8 flex flex-col items-center">
+      <div className="w-full max-w-5xl bg-gray-50 rounded-lg shadow-lg p-6">
+        <h2 className="text-2xl font-semibold text-gray-800 mb-1 text-center">The Trillium Model</h2>
+        <p className="text-sm text-gray-500 mb-4 text-center">
+          {covered === 0
+            ? `"${document.title}" does not discuss the elements of the Trillium Model.`
+            : 'Select a part of the diagram to read what the document says about it.'}
+        </p>
+
+        <div className="flex flex-col lg:flex-row gap-6">
+          <svg viewBox="0 0 600 600" className="w-full lg:w-1/2 h-auto select-none" role="group" aria-label="Trillium Model diagram">
+            <defs>
+              <radialGradient id="trillium-sphere" cx="40%" cy="35%">
+                <stop offset="0%" stopColor="#e0e7ff" />
+                <stop offset="100%" stopColor="#818cf8" />
+              </radialGradient>
+              <marker id="trillium-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="#0d9488" />
+              </marker>
+              <marker id="trillium-scale-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="#64748b" />
+              </marker>
+            </defs>
+
+            <Region {...regionProps('square')}>
+              <rect x={70} y={70} width={460} height={460} fill="none" stroke={strokeFor('square', '#475569')} strokeWidth={selectedId === 'square' ? 4 : 2} />
+              {/* A wide invisible border, so the thin outline is easy to hit. */}
+              <rect x={70} y={70} width={460} height={460} fill="none" stroke="transparent" strokeWidth={18} pointerEvents="stroke" />
+              <text x={300} y={58} textAnchor="middle" className="fill-slate-600 text-[15px] font-semibold">The Square</text>
+            </Region>
+
+            <Region {...regionProps('circle')}>
+              {CIRCLE_ARCS.map(arc => (
+                <path key={arc} d={arc} fill="none" stroke={strokeFor('circle', '#0d9488')} strokeWidth={selectedId === 'circle' ? 4 : 2.5} strokeDasharray="8 6" markerEnd="url(#trillium-arrow)" />
+              ))}
+              <circle cx={300} cy={300} r={190} fill="none" stroke="transparent" strokeWidth={18} pointerEvents="stroke" />
+              <text x={300} y={470} textAnchor="middle" className="fill-teal-700 text-[14px] font-semibold">The Circle</text>
+            </Region>
+
+            <line x1={120} y1={300} x2={480} y2={300} stroke="#64748b" strokeWidth={2} markerEnd="url(#trillium-scale-arrow)" />
+            <text x={300} y={410} textAnchor="middle" className="fill-slate-500 text-[12px]">past → present → future</text>
+
+            <Region {...regionProps('sphere')}>
+              <circle cx={300} cy={300} r={56} fill="url(#trillium-sphere)" stroke={strokeFor('sphere', '#6366f1')} strokeWidth={selectedId === 'sphere' ? 4 : 1.5} />
+              <text x={300} y={234} textAnchor="middle" className="fill-indigo-700 text-[14px] font-semibold">The Sphere</text>
+            </Region>
+
+            {SCALE.map(point => (
+              <Region key={point.id} {...regionProps(point.id)}>
+                <circle cx={point.x} cy={300} r={30} fill={point.fill} stroke={strokeFor(point.id, '#334155')} strokeWidth={point.id === selectedId ? 4 : 2} />
+                <text x={point.x} y={306} textAnchor="middle" className="fill-slate-800 text-[18px] font-bold">{point.symbol}</text>
+                <text x={point.x} y={point.id === 'consciousness-filter' ? 374 : 350} textAnchor="middle" className="fill-slate-700 text-[13px]">
+                  {point.lines.map((line, index) => <tspan key={line} x={point.x} dy={index === 0 ? 0 : 15}>{line}</tspan>)}
+                </text>
+              </Region>
+            ))}
+
+            {PILLARS.map(pillar => (
+              <Region key={pillar.id} {...regionProps(pillar.id)}>
+                <rect
+                  x={pillar.x - 46}
+                  y={pillar.y - 16}
+                  width={92}
+                  height={32}
+                  rx={8}
+                  fill="#fef3c7"
+                  stroke={strokeFor(pillar.id, '#d97706')}
+                  strokeWidth={pillar.id === selectedId ? 4 : 1.5}
+                />
+                <text x={pillar.x} y={pillar.y + 5} textAnchor="middle" className="fill-amber-900 text-[14px] font-semibold">
+                  {DIAGRAM_ELEMENTS.find(element => element.id === pillar.id)!.label}
+                </text>
+              </Region>
+            ))}
+          </svg>
+
+          <div className="w-full lg:w-1/2 bg-white rounded-lg border border-slate-200 p-4 min-h-[200px]">
+            {selected && node ? (
+              <>
+                <h3 className="text-xl font-bold text-slate-800">{selected.label}</h3>
+                <p className="text-sm text-gray-500">{selected.caption}</p>
+
+                <h4 className="mt-4 mb-1 text-sm font-semibold text-slate-700">Summary</h4>
+                {summaries[node.id] ? (
+                  <p className="text-gray-700">{summaries[node.id]}</p>
+                ) : errors[node.id] ? (
+                  <ErrorNotice
+                    error={errors[node.id]!}
+                    onRetry={() => {
+                      setErrors(prev => ({ ...prev, [node.id]: undefined }));
+                      setAttempt(prev => prev + 1);
+                    }}
+                  />
+                ) : (
+                  <p className="flex items-center text-sm text-slate-500">
+                    <Loader2 size={14} className="mr-2 animate-spin" />
+                    Generating summary...
+                  </p>
+                )}
+
+                <details className="mt-4" open>
+                  <summary className="text-sm font-semibold text-slate-700 cursor-pointer">From "{node.title}"</summary>
+                  <div
+                    ref={sectionRef}
+                    className="mt-2 max-h-72 overflow-y-auto prose prose-sm prose-slate max-w-none"
+                    dangerouslySetInnerHTML={{ __html: sectionHtml }}
+                  />
+                </details>
+
+                <div className="flex gap-4 mt-4">
+                  <button onClick={() => onReadInReport(node.id)} className="flex items-center text-sm text-blue-600 hover:text-blue-800">
+                    <BookOpen size={14} className="mr-1" />
+                    Read in report
+                  </button>
+                  <button
+                    onClick={() => onAsk(`What does the document say about ${selected.label.replace(/\s*\([^)]*\)$/, '')}?`)}
+                    className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    <MessageSquare size={14} className="mr-1" />
+                    Ask about this
+                  </button>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">
+                The scale runs from the past (-1) through the present (0) to the future (+1), inside the Square of
+                embodied reality. The Sphere marks the present moment and the Circle is the feedback loop joining them.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrilliumDiagram;
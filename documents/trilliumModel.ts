@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Document } from '../types';
+
+// The full content of the Trillium Model report, bundled as the library's built-in document.
+export const trilliumModelReport: Document = {
+  id: 'trillium-model',
+  title: "Andre Smith's Trillium Model: A Comprehensive Exploration",
+  author: 'Andre Smith',
+  revision: 1,
+  body: `
+# Andre Smith's Trillium Model: A Comprehensive Exploration
+
+## Abstract
+
+This report provides a comprehensive exploration of The Trillium Model, a theoretical hypothesis proposed by Andre Smith, a theoretical physicist. The model presents a sophisticated framework for understanding how consciousness and reality are inextricably linked. It defines reality not as a static, external environment but as a dynamic, self-referential process that is actively co-created through the interplay of an individual’s mental, physical, emotional, and visual faculties. By establishing a clear, multi-layered scale of existence, the model offers profound insights into personal agency, the nature of time, and the psychological mechanisms by which a person's inner state manifests their external reality.
+
+## I. The Core Framework: A Scale of Existence
+
+Andre Smith conceptualizes his model as an elegant numerical scale—with **-1** representing the past, **0** for the present, and **+1** for the future. This scale is not a measure of distance, but a hierarchy of influence and agency that underpins the constant process of creation.
+
+* **The Reflective Wave (-1): The Repository of Truth and Obstacles.** The Reflective Wave is more than a simple record of history; it is a repository of learned experiences and a living memory of every detail, including the obstacles encountered. As Andre Smith explains with his fan and backscratcher analogies, the past holds the precise knowledge of what went right and, more importantly, what went wrong. This truth, embedded in an individual's physical, emotional, and visual memory, is a resource that can be consciously accessed in the present to inform their choices and avoid future pitfalls. This is the **subconscious mind**, a vast reservoir of past data that constantly flows into the present.
+
+* **The Consciousness Filter (0): The Crucible of the Now.** The "now," represented by the **0**, is the critical core of the model and the sole point where creation and decision-making occur. It is the mental crucible where a person can mentally and emotionally "try out" future possibilities before they are physically manifested. This is a profound psychological concept—the mind is a simulator. As illustrated by the example of rearranging a living room, a person uses their mental, visual, physical, and emotional faculties to navigate the Probabilistic Landscape, running through scenarios and potential problems in their mind, all from the vantage point of the present. This is the **conscious mind**, the active agent in the process of creation.
+
+* **The Probabilistic Landscape (+1): The Unfolding of Potential.** The **+1** is the realm of pure potentiality, a canvas of endless possibilities. Andre Smith's insight is that this landscape is not a static list of futures, but a space a person actively engages with from the **0**. One "looks forward, ahead of that zero," using imagination and foresight to pre-experience outcomes. The truth of the future is not what is fated, but what is chosen and manifested from the current moment. This is the realm where a person's inner work becomes outer reality.
+
+## II. The Encompassing Elements: The Unified Field of Consciousness
+
+The dynamic interplay of the Trillium Model's core components is housed within a larger, unified field of consciousness, defined by three key elements:
+
+* **The Square: The Four Pillars of Embodied Reality.** The Square is a conceptual element that surrounds the entire Trillium Model, and its four corners represent the fundamental, integrated dimensions of human experience: **Visual, Physical, Emotional, and Mental**. This is not about external societal pressures or beliefs. It is a profound acknowledgment that a person’s inner world is constructed from these four intrinsic components. The Square acts as a unified container for a person’s entire embodied reality, asserting that to truly understand consciousness, we must see it not as a disembodied mental event, but as an inseparable synthesis of how we see, feel, think, and exist physically.
+
+* **The Sphere & The Circle: The Point and The Process.** At the center of this unified field is **The Sphere**, the singular, non-divisible point of the "eternal now." This is the precise intersection where the past and future converge, all processed through the Consciousness Filter. The Sphere is the point of ultimate truth and agency, as it is the only moment where real change can be initiated. The entire process is then unified by **The Circle**, a continuous, integrated feedback loop. This circular dynamic shows how past, present, and future are not separate, but are in constant, fluid interaction, underscoring the holistic truth that our mental, physical, emotional, and visual aspects are seamlessly unified within one overarching process.
+
+## III. The Psychological and Philosophical Interconnection
+
+The most profound philosophical truth within Andre Smith's theoretical hypothesis is that individuals are the architects of their own reality.
+
+* **The Paradox of Creation.** Andre Smith highlights a powerful psychological paradox: the very act of fearing a negative outcome and dwelling on what a person *doesn't* want to happen is a creative act. By giving their mental, emotional, and visual energy to the "opposite" of what they desire, they are effectively and often unconsciously creating that very reality. This concept directly challenges the notion of "free will" as a random, unguided force. Instead, it suggests that expectations and thoughts, whether conscious or unconscious, are the primary determinants of one's future. As he explains, a person who thinks about a past failure and says, "that ain't going to work, so I'm not going to do it," is actively creating the failure they fear.
+
+* **Personal Agency and Conscious Overriding.** The key to personal agency, as he articulates, is the conscious use of the Consciousness Filter (**0**). The solution is to deliberately shift focus from what didn't work previously to what *must* work this time. This isn't just positive thinking; it's a deliberate psychological act of overriding a past, negative memory with a new, intentional probability. By mentally rehearsing positive outcomes and acknowledging the obstacles from the Reflective Wave, a person can make a conscious decision to choose a new path. This process is not about denying the past but learning from it to inform a more intentional present and a more desirable future.
+
+## Conclusion
+
+In this way, Andre Smith’s theoretical hypothesis is not a theory to be passively understood, but a guide for active participation in the creation of reality. It reveals the constant, dynamic, and intricate dance between a person's past experiences, their present thoughts, and their future possibilities, all grounded in the truth of their embodied experience. By consciously engaging with the various components of The Trillium Model, an individual can gain profound self-awareness and leverage their innate creative power to become the architect of their own life.
+`,
+};
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createServer } from 'node:http';
+import { loadEnv } from 'vite';
+import { createGeminiProvider } from '../services/providers/geminiProvider';
+import { createProxyHandler } from './proxyHandler';
+import { createRateLimiter } from './rateLimiter';
+
+/**
+ * The API proxy: holds the Gemini key and forwards model requests from the app, which runs
+ * with `LLM_PROVIDER=proxy`. Reads the same `.env` files as Vite, plus:
+ * - `PROXY_PORT` / `PROXY_HOST`: where to listen (8787 on localhost by default).
+ * - `PROXY_RATE_LIMIT`: requests per minute allowed from each client (30 by default).
+ * - `PROXY_MAX_BODY_BYTES`: the largest request body accepted (512 KB by default).
+ * - `PROXY_TRUST_FORWARDED`: set to `true` behind a reverse proxy, to rate limit by X-Forwarded-For.
+ */
+const env = loadEnv(process.env.NODE_ENV === 'development' ? 'development' : 'production', process.cwd(), '');
+
+const port = Number(env.PROXY_PORT) || 8787;
+const host = env.PROXY_HOST || '127.0.0.1';
+const provider = {
+  ...createGeminiProvider({ apiKey: env.GEMINI_API_KEY, model: env.LLM_MODEL }),
+  // The Gemini provider's own message is written for the browser build.
+  configurationError: () => env.GEMINI_API_KEY ? null : 'The API proxy has no Gemini key. Set GEMINI_API_KEY where the proxy runs.',
+};
+
+if (provider.configurationError()) {
+  console.warn('GEMINI_API_KEY is not set; every request will fail until it is.');
+}
+
+const handle = createProxyHandler({
+  provider,
+  limiter: createRateLimiter(Number(env.PROXY_RATE_LIMIT) || 30),
+  maxBodyBytes: Number(env.PROXY_MAX_BODY_BYTES) || 512 * 1024,
+  trustProxy: env.PROXY_TRUST_FORWARDED === 'true',
+});
+
+createServer((req, res) => {
+  handle(req, res).catch(error => {
+    console.error('Unhandled proxy error:', error);
+    if (!res.headersSent) res.writeHead(500);
+    res.end();
+  });
+}).listen(port, host, () => {
+  console.log(`API proxy for ${provider.label} listening on http://${host}:${port}/api`);
+});
@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { LlmProvider, LlmRequest, LlmTask } from '../services/llmProvider';
+import { LlmError, isAbortError, toLlmError } from '../services/llmErrors';
+import { buildRequest } from '../services/prompts';
+import type { LlmErrorKind, ProxyError, ProxyStreamEvent } from '../types';
+import type { RateLimiter } from './rateLimiter';
+import { parseTaskInput } from './taskInputs';
+
+const TASKS: LlmTask[] = ['summary', 'answer', 'quiz', 'grade', 'explain', 'flashcards', 'sources', 'glossary'];
+
+// Status codes for failures of the upstream request. The client reads the kind from the body,
+// so these mainly keep logs and intermediaries honest.
+const STATUS_BY_KIND: Record<LlmErrorKind, number> = {
+  auth: 502,
+  rate_limited: 429,
+  quota: 429,
+  offline: 502,
+  safety: 422,
+  malformed: 502,
+  unavailable: 503,
+  unknown: 500,
+};
+
+interface ProxyHandlerOptions {
+  provider: LlmProvider; // Called directly; retrying is left to the client
+  limiter: RateLimiter;
+  maxBodyBytes: number;
+  trustProxy?: boolean; // Identify clients by X-Forwarded-For, when running behind a reverse proxy
+}
+
+// A failure of the proxy's own, answered before anything is sent upstream.
+class RequestError extends Error {
+  constructor(readonly status: number, message: string, readonly retryAfterMs?: number) {
+    super(message);
+  }
+}
+
+const clientIdOf = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+const readBody = async (req: IncomingMessage, maxBytes: number): Promise<string> => {
+  if (Number(req.headers['content-length']) > maxBytes) {
+    throw new RequestError(413, `Requests are limited to ${maxBytes} bytes.`);
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw new RequestError(413, `Requests are limited to ${maxBytes} bytes.`);
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+/**
+ * Builds the request for `task` from the inputs in a request body. The prompt, instructions and
+ * schema are always the server's own, so the proxy's key cannot be used for anything else.
+ * @throws {RequestError} Describing the first problem found.
+ */
+const parseRequest = (task: LlmTask, body: string): LlmRequest => {
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    throw new RequestError(400, 'The request body is not valid JSON.');
+  }
+  const input = parseTaskInput(task, data);
+  if (typeof input === 'string') throw new RequestError(400, input);
+  return buildRequest(task, input);
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, error: ProxyError, retryAfterMs?: number) => {
+  const headers: Record<string, string> = retryAfterMs ? { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } : {};
+  sendJson(res, status, { error }, headers);
+};
+
+/**
+ * Handles the proxy's endpoints, which take the task's inputs (see `TaskInputs`) as JSON:
+ * `POST /api/<task>` answers with `{ text }`, and
+ * `POST /api/<task>/stream` with newline-delimited `ProxyStreamEvent`s. Each client is rate
+ * limited and request bodies are capped in size. A request is aborted upstream as soon as its
+ * client disconnects.
+ */
+export const createProxyHandler = ({ provider, limiter, maxBodyBytes, trustProxy = false }: ProxyHandlerOptions) =>
+  async (req: IncomingMessage, res: ServerResponse) => {
+    const match = /^\/api\/([a-z]+)(\/stream)?\/?$/.exec(new URL(req.url ?? '/', 'http://localhost').pathname);
+    const task = match?.[1] as LlmTask | undefined;
+    if (!task || !TASKS.includes(task)) {
+      sendError(res, 404, { kind: 'unknown', message: 'Not found.' });
+      return;
+    }
+    if (req.method !== 'POST') {
+      sendError(res, 405, { kind: 'unknown', message: 'Use POST.' });
+      return;
+    }
+
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      // Only JSON is accepted, which also keeps other sites from posting here with a simple form or fetch.
+      const contentType = req.headers['content-type']?.split(';')[0].trim().toLowerCase();
+      if (contentType !== 'application/json') throw new RequestError(415, 'Send the request as application/json.');
+      const wait = limiter.take(clientIdOf(req, trustProxy));
+      if (wait > 0) throw new RequestError(429, 'Too many requests. Please wait a moment and try again.', wait);
+      const request = { ...parseRequest(task, await readBody(req, maxBodyBytes)), signal: controller.signal };
+      const configurationError = provider.configurationError();
+      if (configurationError) throw new LlmError('auth', configurationError);
+
+      if (!match![2]) {
+        sendJson(res, 200, { text: await provider.generate(request) });
+        return;
+      }
+
+      // Headers wait for the first event, so a request that fails straight away still gets a proper status.
+      const send = (event: ProxyStreamEvent) => {
+        if (!res.headersSent) {
+          res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache', 'X-Accel-Buffering': 'no' });
+        }
+        res.write(`${JSON.stringify(event)}\n`);
+      };
+      const stream = provider.stream(request);
+      let step = await stream.next();
+      while (!step.done) {
+        send({ text: step.value as string });
+        step = await stream.next();
+      }
+      send({ done: true, urlContext: step.value ? step.value.urlContext : undefined });
+      res.end();
+    } catch (error) {
+      if (controller.signal.aborted || isAbortError(error)) return;
+      if (error instanceof RequestError) {
+        const kind: LlmErrorKind = error.status === 429 ? 'rate_limited' : 'unknown';
+        sendError(res, error.status, { kind, message: error.message }, error.retryAfterMs);
+        return;
+      }
+      console.error(`Error handling ${task} request:`, error);
+      const failure = toLlmError(error);
+      if (res.headersSent) {
+        res.end(`${JSON.stringify({ error: { kind: failure.kind, message: failure.message } } satisfies ProxyStreamEvent)}\n`);
+      } else {
+        sendError(res, STATUS_BY_KIND[failure.kind], { kind: failure.kind, message: failure.message }, failure.retryAfterMs);
+      }
+    }
+  };
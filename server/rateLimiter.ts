@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+interface Bucket {
+  tokens: number;
+  updated: number; // When `tokens` was last refilled, in ms since the epoch
+}
+
+export interface RateLimiter {
+  /**
+   * Spends one request from the client's allowance.
+   * @returns 0 if the request may go ahead, otherwise how many ms until it would be allowed.
+   */
+  take: (clientId: string) => number;
+}
+
+/**
+ * A token bucket per client: each may burst up to `perMinute` requests, and regains one every
+ * `60000 / perMinute` ms. Buckets that have refilled completely are dropped, so idle clients
+ * cost nothing.
+ */
+export const createRateLimiter = (perMinute: number, now: () => number = Date.now): RateLimiter => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = perMinute / 60000;
+
+  const refill = (bucket: Bucket, time: number) => {
+    bucket.tokens = Math.min(perMinute, bucket.tokens + (time - bucket.updated) * refillPerMs);
+    bucket.updated = time;
+  };
+
+  const sweep = (time: number) => {
+    for (const [clientId, bucket] of buckets) {
+      refill(bucket, time);
+      if (bucket.tokens >= perMinute) buckets.delete(clientId);
+    }
+  };
+
+  let lastSweep = now();
+  return {
+    take: (clientId) => {
+      const time = now();
+      if (time - lastSweep > 60000) {
+        sweep(time);
+        lastSweep = time;
+      }
+      const bucket = buckets.get(clientId) ?? { tokens: perMinute, updated: time };
+      buckets.set(clientId, bucket);
+      refill(bucket, time);
+      if (bucket.tokens < 1) return Math.ceil((1 - bucket.tokens) / refillPerMs);
+      bucket.tokens -= 1;
+      return 0;
+    },
+  };
+};
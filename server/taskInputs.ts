@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Passage } from '../services/documentParser';
+import type { LlmMessage, LlmTask } from '../services/llmProvider';
+import { QUESTION_TYPES, QUIZ_DIFFICULTIES, SUMMARY_STYLES } from '../services/prompts';
+import type { QuizRetry, TaskInputs } from '../services/prompts';
+import type { QuizIssue } from '../services/quizService';
+
+const MAX_MESSAGES = 200;
+const MAX_EXCERPTS = 1000;
+const MAX_SUMMARIES = 1000;
+const MAX_URLS = 20;
+const MAX_QUESTIONS = 20;
+const MAX_QUIZ_RETRIES = 5;
+
+type Fields = Record<string, unknown>;
+
+const isFields = (value: unknown): value is Fields => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isStringList = (value: unknown, max: number): value is string[] => {
+  return Array.isArray(value) && value.length <= max && value.every(item => typeof item === 'string');
+};
+
+const isOneOf = <T extends string>(value: unknown, allowed: T[]): value is T => allowed.includes(value as T);
+
+const optionalString = (value: unknown): value is string | undefined => value === undefined || typeof value === 'string';
+
+// Each parser returns the input with only the fields its prompt uses, or a description of the first problem.
+
+const parseExcerpts = (value: unknown): Passage[] | string => {
+  if (!Array.isArray(value) || value.length > MAX_EXCERPTS) return `\`excerpts\` must be a list of at most ${MAX_EXCERPTS} passages.`;
+  const excerpts: Passage[] = [];
+  for (const item of value as unknown[]) {
+    if (!isFields(item) || typeof item.anchor !== 'string' || typeof item.title !== 'string' || typeof item.text !== 'string') {
+      return 'Each excerpt needs an `anchor`, a `title` and a `text`.';
+    }
+    excerpts.push({ anchor: item.anchor, title: item.title, text: item.text });
+  }
+  return excerpts;
+};
+
+const parseHistory = (value: unknown): LlmMessage[] | string => {
+  if (!Array.isArray(value) || value.length > MAX_MESSAGES) return `\`history\` must be a list of at most ${MAX_MESSAGES} messages.`;
+  const history: LlmMessage[] = [];
+  for (const item of value as unknown[]) {
+    if (!isFields(item) || (item.role !== 'user' && item.role !== 'model') || typeof item.text !== 'string') {
+      return 'Each message needs a `role` of "user" or "model" and a `text`.';
+    }
+    history.push({ role: item.role, text: item.text });
+  }
+  return history;
+};
+
+const parseRetries = (value: unknown): QuizRetry[] | string => {
+  if (!Array.isArray(value) || value.length > MAX_QUIZ_RETRIES) return `\`retries\` must be a list of at most ${MAX_QUIZ_RETRIES} attempts.`;
+  const retries: QuizRetry[] = [];
+  for (const item of value as unknown[]) {
+    if (!isFields(item) || typeof item.response !== 'string' || !Number.isInteger(item.missing) || !isStringList(item.asked, MAX_QUESTIONS)) {
+      return 'Each retry needs a `response`, a `missing` count and the questions `asked`.';
+    }
+    if (!Array.isArray(item.issues)) return 'Each retry needs a list of `issues`.';
+    const issues: QuizIssue[] = [];
+    for (const issue of item.issues as unknown[]) {
+      if (!isFields(issue) || !Number.isInteger(issue.position) || typeof issue.message !== 'string') {
+        return 'Each issue needs a `position` and a `message`.';
+      }
+      issues.push({ position: issue.position as number, message: issue.message });
+    }
+    retries.push({ response: item.response, issues, missing: item.missing as number, asked: item.asked });
+  }
+  return retries;
+};
+
+const INPUT_PARSERS: { [T in LlmTask]: (data: Fields) => TaskInputs[T] | string } = {
+  summary: (data) => {
+    const { kind, documentTitle, title, content, summaries, style } = data;
+    if (kind === 'section') {
+      if (!optionalString(documentTitle) || typeof title !== 'string' || typeof content !== 'string') {
+        return 'A section summary needs a `title` and `content`.';
+      }
+      if (!isOneOf(style, SUMMARY_STYLES)) return `\`style\` must be one of ${SUMMARY_STYLES.join(', ')}.`;
+      return { kind, documentTitle, title, content, style };
+    }
+    if (kind !== 'merge' && kind !== 'document') return '`kind` must be "section", "merge" or "document".';
+    if (typeof documentTitle !== 'string' || !isStringList(summaries, MAX_SUMMARIES)) {
+      return `A combined summary needs a \`documentTitle\` and at most ${MAX_SUMMARIES} \`summaries\`.`;
+    }
+    if (kind === 'merge') return { kind, documentTitle, summaries };
+    if (!isOneOf(style, SUMMARY_STYLES)) return `\`style\` must be one of ${SUMMARY_STYLES.join(', ')}.`;
+    return { kind, documentTitle, summaries, style };
+  },
+
+  answer: (data) => {
+    const excerpts = parseExcerpts(data.excerpts);
+    if (typeof excerpts === 'string') return excerpts;
+    const history = parseHistory(data.history);
+    if (typeof history === 'string') return history;
+    if (typeof data.question !== 'string') return '`question` must be a string.';
+    return { excerpts, history, question: data.question };
+  },
+
+  quiz: (data) => {
+    const excerpts = parseExcerpts(data.excerpts);
+    if (typeof excerpts === 'string') return excerpts;
+    const { questionCount, difficulty, types } = data;
+    if (!Number.isInteger(questionCount) || (questionCount as number) < 1 || (questionCount as number) > MAX_QUESTIONS) {
+      return `\`questionCount\` must be a whole number from 1 to ${MAX_QUESTIONS}.`;
+    }
+    if (!isOneOf(difficulty, QUIZ_DIFFICULTIES)) return `\`difficulty\` must be one of ${QUIZ_DIFFICULTIES.join(', ')}.`;
+    if (!Array.isArray(types) || types.length === 0 || !types.every(type => isOneOf(type, QUESTION_TYPES))) {
+      return `\`types\` must list some of ${QUESTION_TYPES.join(', ')}.`;
+    }
+    const retries = parseRetries(data.retries);
+    if (typeof retries === 'string') return retries;
+    return { excerpts, questionCount: questionCount as number, difficulty, types, retries };
+  },
+
+  grade: (data) => {
+    const excerpts = parseExcerpts(data.excerpts);
+    if (typeof excerpts === 'string') return excerpts;
+    const { question, referenceAnswer, answer } = data;
+    if (typeof question !== 'string' || typeof referenceAnswer !== 'string' || typeof answer !== 'string') {
+      return 'Grading needs the `question`, `referenceAnswer` and `answer`.';
+    }
+    return { excerpts, question, referenceAnswer, answer };
+  },
+
+  explain: (data) => {
+    const excerpts = parseExcerpts(data.excerpts);
+    if (typeof excerpts === 'string') return excerpts;
+    const { question, options, correctAnswer, learnerAnswer, explanation, sourceQuote } = data;
+    if (typeof question !== 'string' || typeof correctAnswer !== 'string' || typeof learnerAnswer !== 'string' || typeof explanation !== 'string') {
+      return 'An explanation needs the `question`, `correctAnswer`, `learnerAnswer` and `explanation`.';
+    }
+    if (options !== undefined && !isStringList(options, MAX_QUESTIONS)) return '`options` must be a list of strings.';
+    if (!optionalString(sourceQuote)) return '`sourceQuote` must be a string.';
+    return { excerpts, question, options: options as string[] | undefined, correctAnswer, learnerAnswer, explanation, sourceQuote };
+  },
+
+  flashcards: (data) => {
+    if (typeof data.title !== 'string' || typeof data.content !== 'string') return 'Flashcards need a section `title` and `content`.';
+    return { title: data.title, content: data.content };
+  },
+
+  sources: (data) => {
+    const { urls, question } = data;
+    if (!isStringList(urls, MAX_URLS) || urls.length === 0 || !urls.every(url => /^https?:\/\//.test(url))) {
+      return `\`urls\` must be a list of 1 to ${MAX_URLS} http(s) URLs.`;
+    }
+    const history = parseHistory(data.history);
+    if (typeof history === 'string') return history;
+    if (typeof question !== 'string') return '`question` must be a string.';
+    return { urls, history, question };
+  },
+
+  glossary: (data) => {
+    const excerpts = parseExcerpts(data.excerpts);
+    if (typeof excerpts === 'string') return excerpts;
+    return { excerpts };
+  },
+};
+
+/**
+ * Checks that a request body holds the inputs of `task`, copying only the fields its prompt is
+ * built from, so that nothing else reaches the model with the proxy's key.
+ * @returns The inputs, or a description of the first problem found.
+ */
+export const parseTaskInput = <T extends LlmTask>(task: T, data: unknown): TaskInputs[T] | string => {
+  if (!isFields(data)) return 'The request body must be a JSON object.';
+  return INPUT_PARSERS[task](data);
+};
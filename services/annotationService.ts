@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { foldText } from './domHighlighter';
+import type { Annotation, HighlightColor, TextQuote } from '../types';
+
+const STORAGE_KEY = 'trillium.annotations';
+
+// Characters of surrounding text kept on each side of a quote to tell repeated passages apart.
+const CONTEXT_LENGTH = 32;
+// Length of the opening and closing stretches used to find a passage whose middle was edited.
+const EDGE_LENGTH = 16;
+
+export const HIGHLIGHT_COLORS: Record<HighlightColor, { label: string; className: string; swatch: string }> = {
+  yellow: { label: 'Yellow', className: 'bg-yellow-200', swatch: 'bg-yellow-300' },
+  green: { label: 'Green', className: 'bg-green-200', swatch: 'bg-green-400' },
+  blue: { label: 'Blue', className: 'bg-sky-200', swatch: 'bg-sky-400' },
+  pink: { label: 'Pink', className: 'bg-pink-200', swatch: 'bg-pink-400' },
+};
+
+const isAnnotation = (value: unknown): value is Annotation => {
+  if (!value || typeof value !== 'object') return false;
+  const { id, documentId, anchor, quote, color, note, createdAt, updatedAt } = value as Record<string, unknown>;
+  if (!quote || typeof quote !== 'object') return false;
+  const { exact, prefix, suffix } = quote as Record<string, unknown>;
+  return typeof id === 'string' && typeof documentId === 'string' && typeof anchor === 'string'
+    && typeof exact === 'string' && typeof prefix === 'string' && typeof suffix === 'string'
+    && typeof color === 'string' && Object.hasOwn(HIGHLIGHT_COLORS, color)
+    && typeof note === 'string' && typeof createdAt === 'string' && typeof updatedAt === 'string';
+};
+
+/**
+ * Reads every annotation from localStorage, skipping any entry that is not an annotation.
+ * @returns The stored annotations, or an empty list if nothing is stored or the data is unreadable.
+ */
+const readAnnotations = (): Annotation[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const data: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(data) ? data.filter(isAnnotation) : [];
+  } catch (error) {
+    console.error('Error reading annotations:', error);
+    return [];
+  }
+};
+
+const writeAnnotations = (annotations: Annotation[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(annotations));
+};
+
+export const loadAnnotations = (documentId: string): Annotation[] => {
+  return readAnnotations().filter(annotation => annotation.documentId === documentId);
+};
+
+/**
+ * Adds the annotation, or replaces the stored one with the same id.
+ */
+export const saveAnnotation = (annotation: Annotation) => {
+  const stored = readAnnotations();
+  writeAnnotations(stored.some(existing => existing.id === annotation.id)
+    ? stored.map(existing => existing.id === annotation.id ? annotation : existing)
+    : [...stored, annotation]);
+};
+
+export const deleteAnnotation = (id: string) => {
+  writeAnnotations(readAnnotations().filter(annotation => annotation.id !== id));
+};
+
+export const deleteDocumentAnnotations = (documentId: string) => {
+  writeAnnotations(readAnnotations().filter(annotation => annotation.documentId !== documentId));
+};
+
+/**
+ * Builds the quote for characters `start` to `end` of a folded page text (see `flattenText`).
+ * `exact` is the passage as the reader sees it, for display; matching folds it again.
+ */
+export const createTextQuote = (pageText: string, start: number, end: number, exact: string): TextQuote => ({
+  exact: exact.replace(/\s+/g, ' ').trim(),
+  prefix: pageText.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+  suffix: pageText.slice(end, end + CONTEXT_LENGTH),
+});
+
+const sharedSuffixLength = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) length++;
+  return length;
+};
+
+const sharedPrefixLength = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+};
+
+const occurrences = (text: string, needle: string): number[] => {
+  const found: number[] = [];
+  for (let index = text.indexOf(needle); index !== -1; index = text.indexOf(needle, index + 1)) found.push(index);
+  return found;
+};
+
+/**
+ * Finds a quoted passage in a folded page text. Every occurrence of the passage is scored by how
+ * much of the stored prefix and suffix surrounds it, so the right one of several repeats wins.
+ * If the passage itself was edited, a stretch that still opens and closes the same way (and is
+ * about as long) is accepted instead.
+ * @returns The span of the passage, or null if it can no longer be found.
+ */
+export const locateTextQuote = (pageText: string, quote: TextQuote): [number, number] | null => {
+  const exact = foldText(quote.exact);
+  if (!exact) return null;
+  const score = (start: number, end: number) =>
+    sharedSuffixLength(pageText.slice(Math.max(0, start - quote.prefix.length), start), quote.prefix)
+    + sharedPrefixLength(pageText.slice(end, end + quote.suffix.length), quote.suffix);
+
+  let best: [number, number] | null = null;
+  let bestScore = -1;
+  const consider = (start: number, end: number) => {
+    const value = score(start, end);
+    if (value > bestScore) {
+      best = [start, end];
+      bestScore = value;
+    }
+  };
+
+  for (const start of occurrences(pageText, exact)) consider(start, start + exact.length);
+  if (best || exact.length < EDGE_LENGTH * 3) return best;
+
+  const head = exact.slice(0, EDGE_LENGTH);
+  const tail = exact.slice(-EDGE_LENGTH);
+  for (const start of occurrences(pageText, head)) {
+    const window = pageText.slice(start, start + Math.ceil(exact.length * 1.5));
+    const tailIndex = window.lastIndexOf(tail);
+    const end = start + tailIndex + EDGE_LENGTH;
+    if (tailIndex > EDGE_LENGTH && Math.abs(end - start - exact.length) <= exact.length / 2) consider(start, end);
+  }
+  return best;
+};
+
+/**
+ * Writes annotations out as Markdown: one heading per section, each passage as a quote
+ * followed by its note.
+ */
+export const annotationsToMarkdown = (
+  documentTitle: string,
+  sections: { title: string; annotations: Annotation[] }[],
+): string => {
+  const lines = [`# Notes on ${documentTitle}`, ''];
+  for (const section of sections) {
+    if (section.annotations.length === 0) continue;
+    lines.push(`## ${section.title}`, '');
+    for (const annotation of section.annotations) {
+      lines.push(`> ${annotation.quote.exact}`, '');
+      if (annotation.note.trim()) lines.push(annotation.note.trim(), '');
+    }
+  }
+  return lines.join('\n');
+};
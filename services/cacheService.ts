@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { LlmTask } from './llmProvider';
+
+/**
+ * A generated result stored in IndexedDB. The key combines the task, the model and a hash of
+ * everything sent to the model, so when a document's text changes its old entries stop being
+ * looked up, fresh results are generated, and the old ones are eventually pruned.
+ */
+export interface CacheEntry {
+  key: string;
+  task: LlmTask;
+  model: string;
+  value: string;
+  createdAt: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number; // Approximate, from the length of the stored values
+  byTask: Partial<Record<LlmTask, number>>;
+}
+
+const DB_NAME = 'trillium-cache';
+const STORE_NAME = 'generations';
+const MAX_ENTRIES = 500;
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        // Entries are indexed by age, for pruning.
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' }).createIndex('createdAt', 'createdAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after the user allows storage.
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, operate: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operate(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Hashes text with SHA-256 and returns it as hex.
+ */
+export const hashContent = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const cacheKey = async (task: LlmTask, model: string, content: string): Promise<string> => {
+  return `${task}:${model}:${await hashContent(content)}`;
+};
+
+/**
+ * @returns The cached entry, or null if there is none or storage is unavailable.
+ */
+export const getCached = async (key: string): Promise<CacheEntry | null> => {
+  try {
+    return (await runRequest<CacheEntry | undefined>('readonly', store => store.get(key))) ?? null;
+  } catch (error) {
+    console.warn('Cache lookup failed:', error);
+    return null;
+  }
+};
+
+/**
+ * Deletes entries older than `MAX_AGE_MS`, then the oldest beyond `MAX_ENTRIES`, so results for
+ * edited, re-imported or deleted documents do not pile up.
+ */
+const pruneCache = async (): Promise<void> => {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  const cutoff = Date.now() - MAX_AGE_MS;
+  await new Promise<void>((resolve, reject) => {
+    const countRequest = store.count();
+    countRequest.onerror = () => reject(countRequest.error);
+    countRequest.onsuccess = () => {
+      let excess = countRequest.result - MAX_ENTRIES;
+      // Oldest first, stopping at the first entry that is recent enough and within the limit.
+      const cursorRequest = store.index('createdAt').openCursor();
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || (excess <= 0 && (cursor.value as CacheEntry).createdAt >= cutoff)) {
+          resolve();
+          return;
+        }
+        cursor.delete();
+        excess--;
+        cursor.continue();
+      };
+    };
+  });
+};
+
+/**
+ * Stores an entry and prunes old ones. Failures are logged and otherwise ignored; the cache is
+ * only an optimization.
+ */
+export const putCached = async (entry: Omit<CacheEntry, 'createdAt'>): Promise<void> => {
+  try {
+    await runRequest('readwrite', store => store.put({ ...entry, createdAt: Date.now() }));
+    await pruneCache();
+  } catch (error) {
+    console.warn('Could not cache result:', error);
+  }
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  const entries = await runRequest<CacheEntry[]>('readonly', store => store.getAll());
+  const byTask: CacheStats['byTask'] = {};
+  let bytes = 0;
+  for (const entry of entries) {
+    byTask[entry.task] = (byTask[entry.task] ?? 0) + 1;
+    bytes += (entry.key.length + entry.value.length) * 2; // UTF-16
+  }
+  return { entries: entries.length, bytes, byTask };
+};
+
+export const clearCache = async (): Promise<void> => {
+  await runRequest('readwrite', store => store.clear());
+};
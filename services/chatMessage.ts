@@ -0,0 +1,14 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { MessageSender } from '../types';
+import type { ChatMessage } from '../types';
+
+export const createMessage = (sender: MessageSender, text: string, isLoading = false): ChatMessage => ({
+  id: crypto.randomUUID(),
+  sender,
+  text,
+  isLoading,
+});
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Runs `task` over every item with at most `limit` calls in flight, so batches of model
+ * requests stay within rate limits. Failures do not stop the batch. Once `signal` is aborted no
+ * new calls are started, and the items that never ran are reported as rejected.
+ * @returns The outcome for each item, in input order.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal,
+): Promise<PromiseSettledResult<R>[]> => {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      if (signal?.aborted) {
+        results[index] = { status: 'rejected', reason: new DOMException('Aborted', 'AbortError') };
+        continue;
+      }
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+};
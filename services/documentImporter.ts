@@ -0,0 +1,340 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+export type ImportFormat = 'markdown' | 'text' | 'html' | 'pdf';
+
+/**
+ * A file converted to markdown, ready to be previewed and saved with `saveDocument`.
+ */
+export interface ImportedDocument {
+  title: string;
+  body: string;
+  format: ImportFormat;
+  warnings: string[];
+}
+
+const FORMATS_BY_EXTENSION: Record<string, ImportFormat> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+  text: 'text',
+  html: 'html',
+  htm: 'html',
+  pdf: 'pdf',
+};
+
+export const ACCEPTED_EXTENSIONS = Object.keys(FORMATS_BY_EXTENSION).map(ext => `.${ext}`);
+
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+
+const formatOf = (file: File): ImportFormat | undefined => {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (FORMATS_BY_EXTENSION[extension]) return FORMATS_BY_EXTENSION[extension];
+  if (file.type === 'application/pdf') return 'pdf';
+  if (file.type === 'text/html') return 'html';
+  if (file.type === 'text/markdown') return 'markdown';
+  if (file.type === 'text/plain') return 'text';
+  return undefined;
+};
+
+/**
+ * Tidies markdown from any source: unix line endings, no byte-order mark, non-breaking spaces
+ * or trailing whitespace, and at most one blank line between blocks.
+ */
+export const normalizeMarkdown = (markdown: string): string => {
+  return markdown
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/\u00A0/g, ' ')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim() + '\n';
+};
+
+// Converted text is escaped so anything that looks like markup is shown, never rendered as HTML.
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+
+const isShoutedHeading = (line: string) =>
+  line.length <= 80 && /[A-Z]/.test(line) && line === line.toUpperCase() && !/[.,;:]$/.test(line);
+
+const toTitleCase = (text: string) =>
+  text.toLowerCase().replace(/(^|[\s-])(\p{L})/gu, (_, gap, letter) => gap + letter.toUpperCase());
+
+/**
+ * Converts plain text to markdown. Paragraphs stay as they are; a short ALL-CAPS line on its
+ * own becomes a section heading, so reports exported as text keep their structure.
+ */
+export const textToMarkdown = (text: string): string => {
+  const paragraphs = text.replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+  return normalizeMarkdown(paragraphs.map(paragraph => {
+    const trimmed = paragraph.trim();
+    if (!trimmed.includes('\n') && isShoutedHeading(trimmed)) return `## ${escapeHtml(toTitleCase(trimmed))}`;
+    return escapeHtml(trimmed);
+  }).join('\n\n'));
+};
+
+const SKIPPED_ELEMENTS = new Set(['script', 'style', 'noscript', 'template', 'nav', 'header', 'footer', 'aside', 'form', 'button', 'svg', 'iframe']);
+const BLOCK_ELEMENTS = new Set(['p', 'div', 'section', 'article', 'main', 'figure', 'figcaption', 'dl', 'dt', 'dd', 'address']);
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ');
+
+const escapeInline = (text: string) => escapeHtml(text).replace(/([\\`*_[\]])/g, '\\$1');
+
+const inlineMarkdown = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) return escapeInline(collapse(node.textContent ?? ''));
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+  if (SKIPPED_ELEMENTS.has(tag)) return '';
+  const inner = () => Array.from(element.childNodes).map(inlineMarkdown).join('');
+  const wrap = (marker: string) => {
+    const text = inner().trim();
+    return text ? `${marker}${text}${marker}` : '';
+  };
+  switch (tag) {
+    case 'br': return '\n';
+    case 'strong':
+    case 'b': return wrap('**');
+    case 'em':
+    case 'i': return wrap('*');
+    case 'code': return `\`${collapse(element.textContent ?? '')}\``;
+    case 'a': {
+      const text = inner().trim();
+      const href = element.getAttribute('href');
+      return href && /^https?:/i.test(href) && text ? `[${text}](${href})` : text;
+    }
+    case 'img': {
+      const alt = element.getAttribute('alt');
+      return alt ? escapeInline(alt) : '';
+    }
+    default: return inner();
+  }
+};
+
+const blockMarkdown = (element: Element, listDepth = 0): string[] => {
+  const blocks: string[] = [];
+  let inline = '';
+  const flush = () => {
+    const text = inline.replace(/[ \t]*\n[ \t]*/g, '\n').trim();
+    if (text) blocks.push(text);
+    inline = '';
+  };
+
+  for (const child of Array.from(element.childNodes)) {
+    if (child.nodeType !== Node.ELEMENT_NODE) {
+      inline += inlineMarkdown(child);
+      continue;
+    }
+    const el = child as Element;
+    const tag = el.tagName.toLowerCase();
+    if (SKIPPED_ELEMENTS.has(tag)) continue;
+
+    const heading = /^h([1-6])$/.exec(tag);
+    if (heading) {
+      flush();
+      const text = collapse(inlineMarkdown(el)).trim();
+      if (text) blocks.push(`${'#'.repeat(Number(heading[1]))} ${text}`);
+    } else if (tag === 'ul' || tag === 'ol') {
+      flush();
+      const items = Array.from(el.children).filter(item => item.tagName.toLowerCase() === 'li');
+      const indent = '  '.repeat(listDepth);
+      blocks.push(items.map((item, index) => {
+        const marker = tag === 'ol' ? `${index + 1}.` : '-';
+        const [first = '', ...rest] = blockMarkdown(item, listDepth + 1);
+        return [`${indent}${marker} ${first}`, ...rest.map(block => block.startsWith(indent + '  ') ? block : `${indent}  ${block}`)].join('\n');
+      }).join('\n'));
+    } else if (tag === 'blockquote') {
+      flush();
+      const quoted = blockMarkdown(el, listDepth).join('\n\n');
+      if (quoted) blocks.push(quoted.split('\n').map(line => line ? `> ${line}` : '>').join('\n'));
+    } else if (tag === 'pre') {
+      flush();
+      blocks.push(`\`\`\`\n${(el.textContent ?? '').replace(/\n$/, '')}\n\`\`\``);
+    } else if (tag === 'hr') {
+      flush();
+      blocks.push('---');
+    } else if (tag === 'table') {
+      flush();
+      const rows = Array.from(el.querySelectorAll('tr')).map(row =>
+        Array.from(row.children).map(cell => collapse(inlineMarkdown(cell)).trim().replace(/\|/g, '\\|'))
+      ).filter(row => row.length > 0);
+      if (rows.length > 0) {
+        const width = Math.max(...rows.map(row => row.length));
+        const line = (cells: string[]) => `| ${[...cells, ...Array(width - cells.length).fill('')].join(' | ')} |`;
+        blocks.push([line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n'));
+      }
+    } else if (BLOCK_ELEMENTS.has(tag) || tag === 'li') {
+      flush();
+      blocks.push(...blockMarkdown(el, listDepth));
+    } else {
+      inline += inlineMarkdown(el);
+    }
+  }
+  flush();
+  return blocks;
+};
+
+/**
+ * Converts an HTML page to markdown, keeping headings, lists, quotes, code, tables, emphasis
+ * and links. Page chrome such as navigation, headers, footers and scripts is dropped.
+ * @returns The markdown and the page's `<title>`, if it has one.
+ */
+export const htmlToMarkdown = (html: string): { markdown: string; title?: string } => {
+  const page = new DOMParser().parseFromString(html, 'text/html');
+  const root = page.querySelector('main, article') ?? page.body;
+  return {
+    markdown: normalizeMarkdown(blockMarkdown(root).join('\n\n')),
+    title: page.title.trim() || undefined,
+  };
+};
+
+interface PdfLine {
+  text: string;
+  size: number;
+  y: number;
+  page: number;
+}
+
+const BULLET = /^[•◦▪‣●○■□–]\s*/;
+
+/**
+ * Turns the positioned text runs of a PDF into markdown. Lines set noticeably larger than the
+ * body text become headings (the largest size `#`, the next `##`, the rest `###`), a vertical
+ * gap starts a new paragraph, and words hyphenated across lines are rejoined.
+ */
+const pdfLinesToMarkdown = (lines: PdfLine[]): string => {
+  const sizes = new Map<number, number>();
+  for (const line of lines) sizes.set(line.size, (sizes.get(line.size) ?? 0) + line.text.length);
+  const bodySize = [...sizes.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+  const isHeading = (line: PdfLine) => line.size >= bodySize * 1.15 && line.text.length <= 120;
+  const headingSizes = [...new Set(lines.filter(isHeading).map(line => line.size))].sort((a, b) => b - a);
+
+  const blocks: string[] = [];
+  let paragraph = '';
+  let previous: PdfLine | undefined;
+  const flush = () => {
+    const text = paragraph.trim();
+    paragraph = '';
+    if (!text) return;
+    // Consecutive bullets form one tight list.
+    const last = blocks[blocks.length - 1];
+    if (text.startsWith('- ') && last?.split('\n').pop()?.startsWith('- ')) blocks[blocks.length - 1] = `${last}\n${text}`;
+    else blocks.push(text);
+  };
+
+  for (const line of lines) {
+    if (isHeading(line)) {
+      flush();
+      const level = Math.min(headingSizes.indexOf(line.size) + 1, 3);
+      // Headings that wrap onto a second line are merged back together.
+      const last = blocks[blocks.length - 1];
+      if (previous && isHeading(previous) && previous.size === line.size && previous.page === line.page && last?.startsWith('#')) {
+        blocks[blocks.length - 1] = `${last} ${escapeHtml(line.text)}`;
+      } else {
+        blocks.push(`${'#'.repeat(level)} ${escapeHtml(line.text)}`);
+      }
+    } else {
+      const gap = previous && previous.page === line.page ? Math.abs(previous.y - line.y) : 0;
+      if (!previous || isHeading(previous) || gap > line.size * 1.8 || BULLET.test(line.text)) flush();
+      const text = escapeHtml(line.text).replace(BULLET, '- ');
+      if (!paragraph) paragraph = text;
+      else if (/\p{L}-$/u.test(paragraph)) paragraph = paragraph.slice(0, -1) + text;
+      else paragraph += ` ${text}`;
+    }
+    previous = line;
+  }
+  flush();
+  return normalizeMarkdown(blocks.join('\n\n'));
+};
+
+/**
+ * Extracts the text of a PDF in the browser with pdf.js, which is only loaded when needed.
+ * @throws If the PDF has no text layer, e.g. because it is a scan.
+ */
+const pdfToMarkdown = async (data: ArrayBuffer): Promise<{ markdown: string; title?: string }> => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  try {
+    const lines: PdfLine[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      let current: PdfLine | null = null;
+      for (const item of content.items as TextItem[]) {
+        if (typeof item.str !== 'string') continue;
+        const size = Math.round(Math.hypot(item.transform[2], item.transform[3]));
+        if (!current) current = { text: '', size, y: item.transform[5], page: pageNumber };
+        current.text += item.str;
+        current.size = Math.max(current.size, item.str.trim() ? size : 0);
+        if (item.hasEOL) {
+          if (current.text.trim()) lines.push({ ...current, text: collapse(current.text).trim() });
+          current = null;
+        }
+      }
+      if (current?.text.trim()) lines.push({ ...current, text: collapse(current.text).trim() });
+      page.cleanup();
+    }
+    if (lines.length === 0) {
+      throw new Error('This PDF has no selectable text. Scanned documents need to be run through OCR first.');
+    }
+    const { info } = await pdf.getMetadata().catch(() => ({ info: undefined }));
+    const title = (info as { Title?: string } | undefined)?.Title?.trim();
+    return { markdown: pdfLinesToMarkdown(lines), title: title || undefined };
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+const titleFromFileName = (name: string): string => {
+  return name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim() || 'Untitled document';
+};
+
+/**
+ * Reads an uploaded file and converts it to markdown. The title is taken from the document's
+ * first `#` heading, then its own metadata, then the file name.
+ * @throws If the file type is not supported, the file is too large or it contains no text.
+ */
+export const importFile = async (file: File): Promise<ImportedDocument> => {
+  const format = formatOf(file);
+  if (!format) {
+    throw new Error(`"${file.name}" is not a supported file. Choose a ${ACCEPTED_EXTENSIONS.join(', ')} file.`);
+  }
+  if (file.size > MAX_FILE_BYTES) {
+    throw new Error(`"${file.name}" is larger than ${MAX_FILE_BYTES / 1024 / 1024} MB.`);
+  }
+
+  let converted: { markdown: string; title?: string };
+  switch (format) {
+    case 'pdf':
+      converted = await pdfToMarkdown(await file.arrayBuffer());
+      break;
+    case 'html':
+      converted = htmlToMarkdown(await file.text());
+      break;
+    case 'text':
+      converted = { markdown: textToMarkdown(await file.text()) };
+      break;
+    case 'markdown':
+      converted = { markdown: normalizeMarkdown(await file.text()) };
+      break;
+  }
+
+  const body = converted.markdown;
+  if (!body.trim()) {
+    throw new Error(`"${file.name}" does not contain any text.`);
+  }
+  const heading = /^#\s+(.+)$/m.exec(body)?.[1].trim();
+  const warnings: string[] = [];
+  if (!/^#{1,6}\s/m.test(body)) {
+    warnings.push('No headings were found, so the document will be treated as a single section.');
+  }
+  if (format === 'pdf') {
+    warnings.push('Text extracted from a PDF can have layout glitches. Check the preview before saving.');
+  }
+  return { title: heading || converted.title || titleFromFileName(file.name), body, format, warnings };
+};
@@ -0,0 +1,304 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Marked, Renderer } from 'marked';
+import type { RendererObject, Token, Tokens } from 'marked';
+
+/**
+ * A node in a document's outline. Headings form the tree; bullet points that open with a
+ * bolded phrase (e.g. "**The Reflective Wave (-1): ...**") become named concept nodes
+ * under the heading they appear in.
+ */
+export interface OutlineNode {
+  id: string; // Slug anchor, unique within the document
+  title: string;
+  kind: 'heading' | 'concept';
+  depth: number;
+  content: string; // Markdown under this node, including its descendants
+  children: OutlineNode[];
+}
+
+/**
+ * A block of plain text (heading, paragraph or list item) tagged with the outline node it
+ * belongs to. Passages are the unit the search index works on.
+ */
+export interface Passage {
+  anchor: string; // Id of the enclosing outline node, or '' before the first heading
+  title: string;
+  text: string;
+}
+
+// Lexer tokens that received an anchor while the outline was built.
+type AnchoredToken = (Tokens.Heading | Tokens.ListItem) & { anchor?: string };
+
+export const slugify = (text: string): string => {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s-]/g, '')
+    .trim()
+    .replace(/[\s-]+/g, '-') || 'section';
+};
+
+const ENTITIES: Record<string, string> = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'" };
+
+// Flattens inline tokens to the text a reader sees, dropping emphasis and link markup.
+const plainText = (tokens: Token[] | undefined, fallback: string): string => {
+  if (!tokens || tokens.length === 0) return fallback;
+  return tokens.map(token => {
+    if ('tokens' in token && token.tokens) return plainText(token.tokens, '');
+    return 'text' in token ? token.text.replace(/&(amp|lt|gt|quot|#39);/g, entity => ENTITIES[entity]) : '';
+  }).join('');
+};
+
+/**
+ * Returns the bolded lead phrase of a list item, or null if the item does not open with one.
+ * Works for both tight (`text`) and loose (`paragraph`) list items.
+ */
+const conceptTitle = (item: Tokens.ListItem): string | null => {
+  const first = item.tokens[0];
+  if (!first || (first.type !== 'text' && first.type !== 'paragraph')) return null;
+  const lead = (first as Tokens.Text | Tokens.Paragraph).tokens?.[0];
+  if (!lead || lead.type !== 'strong') return null;
+  const title = plainText((lead as Tokens.Strong).tokens, lead.text).trim().replace(/[.:]+$/, '');
+  return title || null;
+};
+
+const createAnchorAllocator = () => {
+  const used = new Map<string, number>();
+  return (text: string): string => {
+    const base = slugify(text);
+    const count = used.get(base) ?? 0;
+    used.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count + 1}`;
+  };
+};
+
+/**
+ * Lexes the markdown and builds its outline, tagging the heading and concept tokens with the
+ * anchors the renderer will emit so the two always agree.
+ */
+const analyze = (markdown: string) => {
+  const tokens = new Marked().lexer(markdown);
+  const allocate = createAnchorAllocator();
+  const roots: OutlineNode[] = [];
+  const stack: OutlineNode[] = [];
+  // Markdown that sits directly under each heading, before its first sub-heading.
+  const leads = new Map<OutlineNode | null, string>([[null, '']]);
+  const closedLeads = new Set<OutlineNode | null>();
+  const passages: Passage[] = [];
+
+  const addPassage = (node: OutlineNode | undefined, blocks: Token[]) => {
+    const text = blocks
+      .map(block => plainText('tokens' in block ? block.tokens : undefined, 'text' in block ? block.text : block.raw))
+      .join(' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (text) passages.push({ anchor: node?.id ?? '', title: node?.title ?? '', text });
+  };
+
+  const append = (raw: string) => {
+    stack.forEach(node => { node.content += raw; });
+  };
+
+  const appendLead = (raw: string) => {
+    const top = stack[stack.length - 1] ?? null;
+    if (!closedLeads.has(top)) leads.set(top, (leads.get(top) ?? '') + raw);
+  };
+
+  const attach = (node: OutlineNode, parent: OutlineNode | undefined) => {
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  };
+
+  const collectConcepts = (list: Tokens.List, parent: OutlineNode | undefined) => {
+    for (const item of list.items as AnchoredToken[] & Tokens.ListItem[]) {
+      const title = conceptTitle(item);
+      let owner = parent;
+      if (title) {
+        // Anchor on the concept's name, i.e. the part before any ": subtitle".
+        item.anchor = allocate(title.split(':')[0]);
+        owner = {
+          id: item.anchor,
+          title,
+          kind: 'concept',
+          depth: (parent?.depth ?? 0) + 1,
+          content: item.text.trim(),
+          children: [],
+        };
+        attach(owner, parent);
+      }
+      addPassage(owner, item.tokens.filter(child => child.type !== 'list'));
+      for (const child of item.tokens) {
+        if (child.type === 'list') collectConcepts(child as Tokens.List, owner);
+      }
+    }
+  };
+
+  for (const token of tokens) {
+    if (token.type === 'heading') {
+      const heading = token as AnchoredToken & Tokens.Heading;
+      while (stack.length > 0 && stack[stack.length - 1].depth >= heading.depth) stack.pop();
+      append(heading.raw);
+      const title = plainText(heading.tokens, heading.text).trim();
+      heading.anchor = allocate(title);
+      const node: OutlineNode = {
+        id: heading.anchor,
+        title,
+        kind: 'heading',
+        depth: heading.depth,
+        content: '',
+        children: [],
+      };
+      closedLeads.add(stack[stack.length - 1] ?? null);
+      attach(node, stack[stack.length - 1]);
+      stack.push(node);
+      passages.push({ anchor: node.id, title, text: title });
+      continue;
+    }
+    append(token.raw);
+    appendLead(token.raw);
+    if (token.type === 'list') {
+      collectConcepts(token as Tokens.List, stack[stack.length - 1]);
+    } else if (token.type !== 'space') {
+      addPassage(stack[stack.length - 1], [token]);
+    }
+  }
+
+  const trim = (nodes: OutlineNode[]) => nodes.forEach(node => {
+    node.content = node.content.trim();
+    trim(node.children);
+  });
+  trim(roots);
+
+  const leadOf = (node: OutlineNode | null) => (leads.get(node) ?? '').trim();
+
+  return { tokens, outline: roots, passages, leadOf };
+};
+
+export const parseOutline = (markdown: string): OutlineNode[] => analyze(markdown).outline;
+
+/**
+ * Splits a document into plain-text passages in document order.
+ */
+export const parsePassages = (markdown: string): Passage[] => analyze(markdown).passages;
+
+/**
+ * Flattens an outline into document order.
+ */
+export const flattenOutline = (nodes: OutlineNode[]): OutlineNode[] => {
+  return nodes.flatMap(node => [node, ...flattenOutline(node.children)]);
+};
+
+/**
+ * Splits a document into its top-level sections. A lone title heading (such as the report's
+ * `#` heading) is skipped in favour of the headings nested under it, and any text that comes
+ * before the first section heading is kept as an "Introduction" section.
+ */
+export const parseSections = (markdown: string): OutlineNode[] => {
+  const { outline, leadOf } = analyze(markdown);
+  let level = outline.filter(node => node.kind === 'heading');
+  let intro = leadOf(null);
+
+  while (level.length === 1 && level[0].children.some(child => child.kind === 'heading')) {
+    intro = [intro, leadOf(level[0])].join('\n\n').trim();
+    level = level[0].children.filter(child => child.kind === 'heading');
+  }
+
+  if (level.length === 0) {
+    return markdown.trim()
+      ? [{ id: 'overview', title: 'Overview', kind: 'heading', depth: 1, content: markdown.trim(), children: outline }]
+      : [];
+  }
+  if (intro) {
+    return [{ id: 'introduction', title: 'Introduction', kind: 'heading', depth: level[0].depth, content: intro, children: [] }, ...level];
+  }
+  return level;
+};
+
+/**
+ * Builds a lookup from outline anchors to the top-level section (from `parseSections`) that
+ * contains them. Anchors outside every section, such as the preamble's, belong to the first one.
+ */
+export const sectionLookup = (markdown: string): ((anchor: string) => string | undefined) => {
+  const sections = parseSections(markdown);
+  const owners = new Map<string, string>();
+  for (const section of sections) {
+    for (const node of [section, ...flattenOutline(section.children)]) owners.set(node.id, section.id);
+  }
+  return (anchor: string) => owners.get(anchor) ?? sections[0]?.id;
+};
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Web and mail links, and relative ones (no scheme before the first `/`, `?` or `#`).
+const SAFE_URL = /^(?:https?:|mailto:|[^:]*(?:[/?#]|$))/i;
+
+// Percent-encodes a URL for an attribute, or returns null if it uses a scheme that could run
+// script, such as `javascript:`. Every `&` is escaped, so entities cannot hide a scheme.
+const safeUrl = (href: string): string | null => {
+  if (!SAFE_URL.test(href)) return null;
+  try {
+    return escapeHtml(encodeURI(href).replace(/%25/g, '%'));
+  } catch {
+    return null;
+  }
+};
+
+// Titles and image text arrive escaped by the lexer.
+const titleAttribute = (title?: string | null) => title ? ` title="${title}"` : '';
+
+// Documents can be imported from anywhere, so raw HTML in them is shown as text rather than
+// injected into the page, where it could run script, and links and images with other URLs are
+// shown as their text.
+const safeElements: RendererObject = {
+  html: ({ text }) => escapeHtml(text),
+  link(token) {
+    const content = this.parser.parseInline(token.tokens);
+    const href = safeUrl(token.href);
+    return href ? `<a href="${href}"${titleAttribute(token.title)}>${content}</a>` : content;
+  },
+  image(token) {
+    const src = safeUrl(token.href);
+    return src ? `<img src="${src}" alt="${token.text}"${titleAttribute(token.title)}>` : token.text;
+  },
+};
+
+const anchoredRenderer = new Marked({
+  useNewRenderer: true,
+  renderer: {
+    ...safeElements,
+    heading(token) {
+      const { anchor } = token as AnchoredToken;
+      if (!anchor) return false;
+      return `<h${token.depth} id="${anchor}">${this.parser.parseInline(token.tokens)}</h${token.depth}>\n`;
+    },
+    listitem(item) {
+      const { anchor } = item as AnchoredToken;
+      if (!anchor) return false;
+      return Renderer.prototype.listitem.call(this, item).replace(/^<li>/, `<li id="${anchor}">`);
+    },
+  },
+});
+
+/**
+ * Renders a markdown document to HTML with `id` attributes on every heading and concept
+ * matching the anchors produced by `parseOutline`.
+ */
+export const renderDocument = (markdown: string): string => {
+  return anchoredRenderer.parser(analyze(markdown).tokens);
+};
+
+const plainRenderer = new Marked({ useNewRenderer: true, renderer: safeElements });
+
+/**
+ * Renders an excerpt of a document, such as one section, to HTML without anchors. Raw HTML and
+ * unsafe links are made inert as in `renderDocument`.
+ */
+export const renderMarkdown = (markdown: string): string => {
+  return plainRenderer.parse(markdown) as string;
+};
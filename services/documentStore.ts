@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Document, DocumentSummary } from '../types';
+import { trilliumModelReport } from '../documents/trilliumModel';
+import { deleteDocumentAnnotations } from './annotationService';
+import { deleteDeck } from './flashcardService';
+import { deleteAttempts } from './quizHistoryService';
+import { deleteGlossary } from './glossaryService';
+
+const STORAGE_KEY = 'trillium.documents';
+
+// Documents bundled with the app. They are always listed and cannot be deleted.
+const builtInDocuments: Document[] = [trilliumModelReport];
+
+export const DEFAULT_DOCUMENT_ID = trilliumModelReport.id;
+
+const isDocument = (value: unknown): value is Document => {
+  if (!value || typeof value !== 'object') return false;
+  const { id, title, author, body, revision } = value as Record<string, unknown>;
+  return typeof id === 'string' && typeof title === 'string' && typeof author === 'string'
+    && typeof body === 'string' && typeof revision === 'number';
+};
+
+/**
+ * Reads user-saved documents from localStorage, skipping any entry that is not a document.
+ * @returns The stored documents, or an empty list if nothing is stored or the data is unreadable.
+ */
+const readStoredDocuments = (): Document[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const data: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(data) ? data.filter(isDocument) : [];
+  } catch (error) {
+    console.error('Error reading stored documents:', error);
+    return [];
+  }
+};
+
+const writeStoredDocuments = (documents: Document[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(documents));
+};
+
+const allDocuments = (): Document[] => {
+  const stored = readStoredDocuments().filter(doc => !builtInDocuments.some(b => b.id === doc.id));
+  return [...builtInDocuments, ...stored];
+};
+
+export const isBuiltInDocument = (id: string): boolean => builtInDocuments.some(doc => doc.id === id);
+
+export const listDocuments = async (): Promise<DocumentSummary[]> => {
+  return allDocuments().map(({ body, ...summary }) => summary);
+};
+
+export const loadDocument = async (id: string): Promise<Document | null> => {
+  return allDocuments().find(doc => doc.id === id) ?? null;
+};
+
+/**
+ * Saves a document to the library, bumping its revision if it already exists.
+ * @returns The stored document with its new revision.
+ */
+export const saveDocument = async (document: Omit<Document, 'revision'>): Promise<Document> => {
+  if (isBuiltInDocument(document.id)) {
+    throw new Error('Built-in documents cannot be modified.');
+  }
+  const stored = readStoredDocuments();
+  const existing = stored.find(doc => doc.id === document.id);
+  const saved: Document = { ...document, revision: existing ? existing.revision + 1 : 1 };
+  writeStoredDocuments(existing
+    ? stored.map(doc => doc.id === saved.id ? saved : doc)
+    : [...stored, saved]);
+  return saved;
+};
+
+/**
+ * Deletes an imported document along with its annotations, flashcards, quiz history and glossary.
+ * Cached model results are left to expire.
+ */
+export const deleteDocument = async (id: string): Promise<void> => {
+  if (isBuiltInDocument(id)) {
+    throw new Error('Built-in documents cannot be deleted.');
+  }
+  writeStoredDocuments(readStoredDocuments().filter(doc => doc.id !== id));
+  deleteDocumentAnnotations(id);
+  deleteDeck(id);
+  deleteAttempts(id);
+  deleteGlossary(id);
+};
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const textNodesOf = (root: HTMLElement): Text[] => {
+  const walker = root.ownerDocument.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const nodes: Text[] = [];
+  while (walker.nextNode()) nodes.push(walker.currentNode as Text);
+  return nodes;
+};
+
+// Wraps `node.data.slice(start, end)` in a mark and returns it. `id` is stored on the mark so
+// clicks can be traced back to what it highlights.
+const wrapRange = (node: Text, start: number, end: number, kind: string, className: string, id?: string): HTMLElement => {
+  const match = node.splitText(start);
+  match.splitText(end - start);
+  const mark = node.ownerDocument.createElement('mark');
+  mark.dataset.highlight = kind;
+  if (id) mark.dataset.highlightId = id;
+  mark.className = className;
+  match.replaceWith(mark);
+  mark.appendChild(match);
+  return mark;
+};
+
+/**
+ * Wraps matches in `<mark>` elements by walking the rendered text nodes, so highlighting never
+ * touches tag names or attributes the way a regex over an HTML string would. `kind` tags the
+ * marks so different highlighters (search, citations, ...) can be cleared independently.
+ */
+export const highlightRanges = (
+  root: HTMLElement,
+  findRanges: (text: string) => [number, number][],
+  kind: string,
+  className: string,
+): HTMLElement[] => {
+  const marks: HTMLElement[] = [];
+  for (const node of textNodesOf(root)) {
+    // Split from the end so earlier offsets stay valid.
+    for (const [start, end] of [...findRanges(node.data)].reverse()) {
+      marks.unshift(wrapRange(node, start, end, kind, className));
+    }
+  }
+  return marks;
+};
+
+// Folds case, typographic quotes and runs of whitespace so quoted text matches the rendered page.
+const foldChar = (char: string): string => {
+  if (/\s/.test(char)) return ' ';
+  if (char === '“' || char === '”') return '"';
+  if (char === '‘' || char === '’') return "'";
+  return char.toLowerCase();
+};
+
+/**
+ * Folds text the same way `flattenText` folds the page, for matching against `FlatText.text`.
+ */
+export const foldText = (text: string): string => Array.from(text.trim()).map(foldChar).join('').replace(/ +/g, ' ');
+
+/**
+ * The text under a root, folded for matching, with each character mapped back to the text
+ * node and offset it came from.
+ */
+export interface FlatText {
+  text: string;
+  positions: { node: Text; offset: number }[];
+}
+
+export const flattenText = (root: HTMLElement): FlatText => {
+  let text = '';
+  const positions: FlatText['positions'] = [];
+  for (const node of textNodesOf(root)) {
+    for (let offset = 0; offset < node.data.length; offset++) {
+      const char = foldChar(node.data[offset]);
+      if (char === ' ' && (text.length === 0 || text.endsWith(' '))) continue;
+      text += char;
+      positions.push({ node, offset });
+    }
+  }
+  return { text, positions };
+};
+
+/**
+ * Maps a DOM boundary point, such as either end of a selection, to the index of the first
+ * character of `flat.text` at or after it.
+ */
+export const flatOffset = (flat: FlatText, container: Node, offset: number): number => {
+  let index: number;
+  if (container.nodeType === Node.TEXT_NODE) {
+    index = flat.positions.findIndex(position =>
+      position.node === container ? position.offset >= offset : !!(container.compareDocumentPosition(position.node) & Node.DOCUMENT_POSITION_FOLLOWING)
+    );
+  } else {
+    // The point sits between children, so the first character at or after it is in the child at `offset` or later.
+    const boundary = container.childNodes[offset];
+    index = flat.positions.findIndex(position => boundary
+      ? boundary === position.node || !!(boundary.compareDocumentPosition(position.node) & (Node.DOCUMENT_POSITION_FOLLOWING | Node.DOCUMENT_POSITION_CONTAINED_BY))
+      : !!(container.compareDocumentPosition(position.node) & Node.DOCUMENT_POSITION_FOLLOWING));
+  }
+  return index === -1 ? flat.text.length : index;
+};
+
+/**
+ * Highlights the characters `start` to `end` of `flat.text`, which may span several text nodes.
+ * The marks split the nodes, so flatten the page again before highlighting anything else.
+ * @returns The marks covering the span, in document order.
+ */
+export const highlightSpan = (
+  flat: FlatText,
+  start: number,
+  end: number,
+  kind: string,
+  className: string,
+  id?: string,
+): HTMLElement[] => {
+  const segments = new Map<Text, [number, number]>();
+  for (const { node, offset } of flat.positions.slice(start, end)) {
+    const [first] = segments.get(node) ?? [offset];
+    segments.set(node, [first, offset + 1]);
+  }
+  return [...segments].map(([node, [first, last]]) => wrapRange(node, first, last, kind, className, id));
+};
+
+/**
+ * Highlights the first occurrence of `text`, which may span several text nodes (for example a
+ * quote running across bold and plain text). Matching ignores case, quote style and whitespace.
+ * @returns The marks covering the occurrence, in document order, or an empty list if not found.
+ */
+export const highlightText = (root: HTMLElement, text: string, kind: string, className: string): HTMLElement[] => {
+  const needle = foldText(text);
+  if (!needle) return [];
+  const flat = flattenText(root);
+  const index = flat.text.indexOf(needle);
+  if (index === -1) return [];
+  return highlightSpan(flat, index, index + needle.length, kind, className);
+};
+
+/**
+ * Removes the marks added by `highlightRanges` for the given kind, restoring the original text nodes.
+ */
+export const clearHighlights = (root: HTMLElement, kind: string) => {
+  root.querySelectorAll(`mark[data-highlight="${kind}"]`).forEach(mark => {
+    const parent = mark.parentNode!;
+    while (mark.firstChild) parent.insertBefore(mark.firstChild, mark);
+    parent.removeChild(mark);
+    parent.normalize();
+  });
+};
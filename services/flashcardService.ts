@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Flashcard, ReviewGrade } from '../types';
+
+const STORAGE_KEY = 'trillium.flashcards';
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+export const NEW_CARDS_PER_DAY = 10;
+
+/**
+ * @returns The local calendar day of `date` as `YYYY-MM-DD`.
+ */
+export const toDay = (date: Date = new Date()): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const addDays = (day: string, days: number): string => {
+  const [year, month, date] = day.split('-').map(Number);
+  return toDay(new Date(year, month - 1, date + days));
+};
+
+const isFlashcard = (value: unknown): value is Flashcard => {
+  if (!value || typeof value !== 'object') return false;
+  const { id, documentId, sectionId, front, back, ease, interval, repetitions, due, introduced } = value as Record<string, unknown>;
+  return typeof id === 'string' && typeof documentId === 'string' && typeof sectionId === 'string'
+    && typeof front === 'string' && typeof back === 'string'
+    && typeof ease === 'number' && typeof interval === 'number' && typeof repetitions === 'number'
+    && typeof due === 'string' && (introduced === undefined || typeof introduced === 'string');
+};
+
+/**
+ * Reads every deck from localStorage, skipping any entry that is not a card.
+ * @returns The stored cards, or an empty list if nothing is stored or the data is unreadable.
+ */
+const readCards = (): Flashcard[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const data: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(data) ? data.filter(isFlashcard) : [];
+  } catch (error) {
+    console.error('Error reading flashcards:', error);
+    return [];
+  }
+};
+
+const writeCards = (cards: Flashcard[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(cards));
+};
+
+export const loadDeck = (documentId: string): Flashcard[] => {
+  return readCards().filter(card => card.documentId === documentId);
+};
+
+/**
+ * Replaces the cards of one section with freshly generated ones, which start out new.
+ * @returns The document's updated deck.
+ */
+export const replaceSectionCards = (
+  documentId: string,
+  sectionId: string,
+  cards: { front: string; back: string }[],
+): Flashcard[] => {
+  const today = toDay();
+  const created: Flashcard[] = cards.map(card => ({
+    id: crypto.randomUUID(),
+    documentId,
+    sectionId,
+    front: card.front,
+    back: card.back,
+    ease: INITIAL_EASE,
+    interval: 0,
+    repetitions: 0,
+    due: today,
+  }));
+  writeCards([
+    ...readCards().filter(card => card.documentId !== documentId || card.sectionId !== sectionId),
+    ...created,
+  ]);
+  return loadDeck(documentId);
+};
+
+export const deleteDeck = (documentId: string) => {
+  writeCards(readCards().filter(card => card.documentId !== documentId));
+};
+
+export const saveCard = (card: Flashcard) => {
+  writeCards(readCards().map(stored => stored.id === card.id ? card : stored));
+};
+
+/**
+ * Schedules the next review with the SM-2 algorithm. A grade below 3 restarts the card's
+ * repetitions and interval, leaving its easiness factor unchanged; otherwise the interval grows
+ * by the easiness factor, which itself moves up or down with the grade. Only a card's first
+ * review of the day should be scheduled (see `needsRepeat`).
+ */
+export const reviewCard = (card: Flashcard, grade: ReviewGrade, today: string = toDay()): Flashcard => {
+  const introduced = card.introduced ?? today;
+  if (grade < 3) {
+    return { ...card, repetitions: 0, interval: 1, due: addDays(today, 1), introduced };
+  }
+  const repetitions = card.repetitions + 1;
+  let interval: number;
+  if (repetitions === 1) {
+    interval = 1;
+  } else if (repetitions === 2) {
+    interval = 6;
+  } else {
+    interval = Math.round(card.interval * card.ease);
+  }
+  return {
+    ...card,
+    ease: Math.max(MIN_EASE, card.ease + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))),
+    interval,
+    repetitions,
+    due: addDays(today, interval),
+    introduced,
+  };
+};
+
+/**
+ * SM-2 repeats every card graded below 4 later in the same session, until it is recalled
+ * well. These repeats do not change the card's schedule.
+ */
+export const needsRepeat = (grade: ReviewGrade): boolean => grade < 4;
+
+/**
+ * Builds today's review queue: every card that has been studied and is due, followed by new
+ * cards up to the daily limit (less any already introduced today), in section order.
+ */
+export const dailyQueue = (deck: Flashcard[], sectionOrder: string[], today: string = toDay()): Flashcard[] => {
+  const bySection = (a: Flashcard, b: Flashcard) => sectionOrder.indexOf(a.sectionId) - sectionOrder.indexOf(b.sectionId);
+  const due = deck.filter(card => card.introduced && card.due <= today).sort((a, b) => a.due.localeCompare(b.due));
+  const introducedToday = deck.filter(card => card.introduced === today).length;
+  const fresh = deck
+    .filter(card => !card.introduced)
+    .sort(bySection)
+    .slice(0, Math.max(0, NEW_CARDS_PER_DAY - introducedToday));
+  return [...due, ...fresh];
+};
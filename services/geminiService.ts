@@ -3,118 +3,490 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, Type } from "@google/genai";
-import type { QuizQuestion } from '../types';
+import { MessageSender } from '../types';
+import type {
+  ChatMessage,
+  Citation,
+  Document,
+  FreeTextGrade,
+  FreeTextQuestion,
+  Glossary,
+  GroundedAnswer,
+  QuizAnswer,
+  QuizConfig,
+  QuizQuestion,
+  SummaryStyle,
+  UrlContextMetadataItem,
+} from '../types';
+import { parsePassages } from './documentParser';
+import type { Passage } from './documentParser';
+import { groundCitations, extractPartialString } from './groundingService';
+import type { Chunk } from './retrievalService';
+import { getProvider } from './llmProvider';
+import type { LlmMessage, LlmStreamResult } from './llmProvider';
+import { cacheKey, getCached, putCached } from './cacheService';
+import { validateQuiz, shuffleOptions, formatAnswer, formatCorrectAnswer } from './quizService';
+import type { QuizIssue } from './quizService';
+import { mapWithConcurrency } from './concurrency';
+import { validateGlossary } from './glossaryService';
+import { LlmError, toLlmError } from './llmErrors';
+import { MAX_FLASHCARDS_PER_SECTION, buildRequest, describeIssues } from './prompts';
+import type { QuizRetry, TaskInputs } from './prompts';
 
-const API_KEY = process.env.API_KEY;
-
-// Initialize the AI client. If API_KEY is not set, `ai` will be null.
-const ai = API_KEY ? new GoogleGenAI({ apiKey: API_KEY }) : null;
-const modelName = "gemini-2.5-flash";
+// The prompts are built in `prompts.ts`; the configured `LlmProvider` (Gemini by default)
+// carries them to a model.
 
 /**
- * Checks if the API key is configured.
- * @returns An error message string if the key is missing, otherwise null.
+ * Checks that the active provider is configured.
+ * @throws {LlmError} Of kind `auth`, carrying the provider's explanation, if something is missing.
  */
-const checkApiKey = (): string | null => {
-    if (!ai) {
-        const errorMessage = "API Key is not configured. Please set up the process.env.API_KEY environment variable.";
+const ensureConfigured = () => {
+    const errorMessage = getProvider().configurationError();
+    if (errorMessage) {
         console.error(errorMessage);
-        return errorMessage;
+        throw new LlmError('auth', errorMessage);
     }
-    return null;
-}
+};
 
-export const generateSummary = async (sectionTitle: string, sectionContent: string): Promise<string> => {
-  const apiKeyError = checkApiKey();
-  if (apiKeyError) return apiKeyError;
+// Parses a structured response, reporting output that is not a JSON object as malformed.
+const parseJson = (text: string): Record<string, unknown> => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text.trim());
+    } catch (error) {
+        throw new LlmError('malformed', undefined, { cause: error });
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new LlmError('malformed');
+    return parsed as Record<string, unknown>;
+};
 
-  const prompt = `Summarize the following section from a theoretical physics report in a concise paragraph. Do not use markdown headers or titles. Do not introduce the summary with phrases like "This section is about" or "In this section...". Just provide the summary.
+// Identifies the model in cache keys, so switching provider or model does not reuse old results.
+const modelId = (): string => `${getProvider().id}/${getProvider().model}`;
 
-Section Title: ${sectionTitle}
-Section Content: ${sectionContent}`;
+// Section summaries are combined in batches of about this many characters, so each
+// request stays small however long the document is.
+const SUMMARY_BATCH_CHARS = 12000;
+const SUMMARY_CONCURRENCY = 3;
+
+const summarize = async (input: TaskInputs['summary'], options: { refresh?: boolean; signal?: AbortSignal }): Promise<string> => {
+  const request = buildRequest('summary', input, options.signal);
+  const key = await cacheKey('summary', modelId(), request.messages[0].text);
+  if (!options.refresh) {
+    const cached = await getCached(key);
+    if (cached) return cached.value;
+  }
 
   try {
-    const response = await ai!.models.generateContent({
-        model: modelName,
-        contents: prompt,
-    });
-    return response.text;
+    const summary = await getProvider().generate(request);
+    await putCached({ key, task: 'summary', model: modelId(), value: summary });
+    return summary;
   } catch (error) {
+    if (options.signal?.aborted) throw error;
     console.error('Error generating summary:', error);
-    return 'Failed to generate summary.';
+    throw toLlmError(error);
   }
 };
 
-export const answerQuestion = async (reportText: string, question: string): Promise<string> => {
-    const apiKeyError = checkApiKey();
-    if (apiKeyError) return apiKeyError;
+/**
+ * Summarizes a section in the given style (a paragraph by default). Summaries are cached by
+ * model and prompt; pass `refresh` to generate a new one and replace the cached copy.
+ * @throws {LlmError} If the provider is not configured or the request fails.
+ */
+export const generateSummary = async (
+  sectionTitle: string,
+  sectionContent: string,
+  options: { style?: SummaryStyle; documentTitle?: string; refresh?: boolean; signal?: AbortSignal } = {},
+): Promise<string> => {
+  ensureConfigured();
+
+  const { style = 'paragraph', documentTitle } = options;
+  return summarize({ kind: 'section', documentTitle, title: sectionTitle, content: sectionContent, style }, options);
+};
+
+const valuesOrThrow = <T>(results: PromiseSettledResult<T>[]): T[] => {
+  return results.map(result => {
+    if (result.status === 'rejected') throw result.reason;
+    return result.value;
+  });
+};
 
-  const prompt = `Based on the following document, answer the user's question. If the information is not in the document, state that you cannot answer.
+/**
+ * Builds an executive summary of a whole document, map-reduce style: every section is
+ * summarized as a paragraph (reusing the cached section summaries), the summaries are merged
+ * in batches until they fit in one request, and the result is written up in the given style.
+ * `onProgress` is called as section summaries complete and again when combining starts.
+ * @throws {LlmError} If any request fails.
+ */
+export const generateDocumentSummary = async (
+  documentTitle: string,
+  sections: { title: string; content: string }[],
+  options: {
+    style?: SummaryStyle;
+    refresh?: boolean;
+    signal?: AbortSignal;
+    onProgress?: (progress: { stage: 'sections' | 'combining'; done: number; total: number }) => void;
+  } = {},
+): Promise<string> => {
+  ensureConfigured();
 
-Document:
-${reportText}
+  const { style = 'paragraph', refresh, signal, onProgress } = options;
+  let done = 0;
+  onProgress?.({ stage: 'sections', done, total: sections.length });
+  const results = await mapWithConcurrency(sections, SUMMARY_CONCURRENCY, async section => {
+    const summary = await generateSummary(section.title, section.content, { documentTitle, refresh, signal });
+    onProgress?.({ stage: 'sections', done: ++done, total: sections.length });
+    return `${section.title}: ${summary}`;
+  }, signal);
+  let summaries = valuesOrThrow(results);
 
-Question: ${question}`;
-  
+  onProgress?.({ stage: 'combining', done: sections.length, total: sections.length });
+  while (summaries.join('\n\n').length > SUMMARY_BATCH_CHARS && summaries.length > 1) {
+    const batches: string[][] = [];
+    for (const summary of summaries) {
+      const batch = batches[batches.length - 1];
+      if (batch && batch.join('\n\n').length + summary.length <= SUMMARY_BATCH_CHARS) batch.push(summary);
+      else batches.push([summary]);
+    }
+    // A batch of one cannot shrink by merging, so stop rather than loop forever.
+    if (batches.length === summaries.length) break;
+    summaries = valuesOrThrow(await mapWithConcurrency(batches, SUMMARY_CONCURRENCY, batch => summarize(
+      { kind: 'merge', documentTitle, summaries: batch },
+      { refresh, signal },
+    ), signal));
+  }
+
+  return summarize({ kind: 'document', documentTitle, summaries, style }, { refresh, signal });
+};
+
+/**
+ * Maps earlier chat turns to model messages. System notices and unfinished messages are
+ * left out so only the actual conversation is replayed.
+ */
+const toMessages = (history: ChatMessage[]): LlmMessage[] => {
+  return history
+    .filter(message => message.sender !== MessageSender.SYSTEM && !message.isLoading && message.text.trim())
+    .map(message => ({
+      role: message.sender === MessageSender.USER ? 'user' : 'model',
+      text: message.text,
+    }));
+};
+
+// Citations missing a field are dropped rather than failing the whole answer.
+const isCitation = (value: unknown): value is Omit<Citation, 'verified'> => {
+  if (!value || typeof value !== 'object') return false;
+  const { id, anchor, quote } = value as Record<string, unknown>;
+  return typeof id === 'number' && typeof anchor === 'string' && typeof quote === 'string';
+};
+
+/**
+ * Streams a grounded answer to a question about the document, sending only the retrieved
+ * `context` chunks rather than the whole text. The answer text is yielded in
+ * chunks as it is generated; once complete, the generator returns the structured answer with
+ * its citations checked against the document. Earlier turns in `history` are sent along so
+ * follow-up questions can refer back to them.
+ * Aborting `signal` ends the stream quietly and returns null; text already yielded is left to the caller.
+ * Completed answers are cached by model and prompt and replayed at once when the same question is
+ * asked about the same context again, unless `refresh` is set.
+ * @throws {LlmError} If the request fails for any reason other than being aborted, or of kind
+ * `malformed` if the reply is not JSON and no answer text could be read from it.
+ */
+export async function* streamAnswer(
+  reportText: string,
+  context: Chunk[],
+  history: ChatMessage[],
+  question: string,
+  options: { signal?: AbortSignal; refresh?: boolean } = {},
+): AsyncGenerator<string, GroundedAnswer | null> {
+  ensureConfigured();
+
+  const passages = parsePassages(reportText);
+  const { signal, refresh } = options;
+  const request = buildRequest('answer', { excerpts: context, history: toMessages(history), question }, signal);
+  const key = await cacheKey('answer', modelId(), JSON.stringify({ system: request.system, messages: request.messages }));
+  const cached = refresh ? null : await getCached(key);
+
+  let json = cached?.value ?? '';
+  let emitted = '';
+  if (cached) {
+    emitted = extractPartialString(json, 'answer');
+    yield emitted;
+  } else {
+    try {
+      const stream = getProvider().stream(request);
+      for await (const chunk of stream) {
+        if (signal?.aborted) return null;
+        json += chunk;
+        const answer = extractPartialString(json, 'answer');
+        if (answer.length > emitted.length) {
+          yield answer.slice(emitted.length);
+          emitted = answer;
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted) return null;
+      console.error('Error streaming answer:', error);
+      throw toLlmError(error);
+    }
+  }
+
+  let parsed: Record<string, unknown>;
   try {
-    const response = await ai!.models.generateContent({
-        model: modelName,
-        contents: prompt,
-    });
-    return response.text;
+    parsed = parseJson(json);
+  } catch (error) {
+    console.error('Received malformed grounded answer:', json);
+    // The text already shown is still useful; it just cannot be linked to sources.
+    if (emitted) return { status: 'answered', answer: emitted, citations: [] };
+    throw error;
+  }
+  if (!cached) await putCached({ key, task: 'answer', model: modelId(), value: json });
+  const citations = Array.isArray(parsed.citations) ? (parsed.citations as unknown[]).filter(isCitation) : [];
+  return {
+    status: parsed.status === 'not_found' ? 'not_found' : 'answered',
+    answer: typeof parsed.answer === 'string' ? parsed.answer : emitted,
+    citations: groundCitations(passages, citations),
+  };
+}
+
+/**
+ * Streams an answer drawn from the given web pages, which the model reads through URL context.
+ * The answer text is yielded in chunks; once complete, the generator returns the retrieval status
+ * of each URL, with any URL the model did not report on listed as unspecified so every failure
+ * can be shown. Aborting `signal` ends the stream quietly, returning no statuses.
+ * @throws {LlmError} If the request fails for any reason other than being aborted.
+ */
+export async function* streamSourcesAnswer(
+  urls: string[],
+  history: ChatMessage[],
+  question: string,
+  signal?: AbortSignal,
+): AsyncGenerator<string, UrlContextMetadataItem[]> {
+  ensureConfigured();
+  const provider = getProvider();
+  if (!provider.supportsUrlContext) {
+    yield `${provider.label} cannot read web pages. Switch to the Gemini provider to ask questions about sources.`;
+    return [];
+  }
+
+  let urlContext: UrlContextMetadataItem[] = [];
+  try {
+    const stream = provider.stream(buildRequest('sources', { urls, history: toMessages(history), question }, signal));
+    while (!signal?.aborted) {
+      const step = await stream.next();
+      if (step.done) {
+        urlContext = (step.value as LlmStreamResult | undefined)?.urlContext ?? [];
+        break;
+      }
+      yield step.value as string;
+    }
   } catch (error) {
-    console.error('Error answering question:', error);
-    return 'Failed to get an answer. Please try again.';
+    if (!signal?.aborted) {
+      console.error('Error answering from sources:', error);
+      throw toLlmError(error);
+    }
   }
+  // A stopped answer says nothing about which pages could be read.
+  if (signal?.aborted) return [];
+
+  const reported = new Set(urlContext.map(item => item.retrievedUrl));
+  return [
+    ...urlContext,
+    ...urls.filter(url => !reported.has(url)).map(url => ({ retrievedUrl: url, urlRetrievalStatus: 'URL_RETRIEVAL_STATUS_UNSPECIFIED' })),
+  ];
+}
+
+const MAX_QUIZ_ATTEMPTS = 3;
+
+// Checks a question's source quote against the excerpts, the same way as a Q&A citation.
+const groundQuizSource = (context: Chunk[], question: QuizQuestion): QuizQuestion => {
+    if (!question.source) return question;
+    const [{ anchor, quote, verified }] = groundCitations(context, [{ id: 0, ...question.source }]);
+    return { ...question, source: { anchor, quote, verified } };
+};
+
+export interface QuizResult {
+    quiz: QuizQuestion[];
+    issues: QuizIssue[]; // Problems with questions that could not be repaired; empty when the quiz is complete
+}
+
+/**
+ * Generates a quiz from a selection of document chunks rather than the whole text, following
+ * `config` for the number, difficulty and types of questions. Every question is validated; if
+ * some are invalid or missing, the model is shown the problems and asked for replacements, up to
+ * `MAX_QUIZ_ATTEMPTS` times. Options are shuffled so the correct answer does not always sit in
+ * the same place, and each question's source quote is checked against the excerpts.
+ * @throws {LlmError} If no valid question could be generated.
+ */
+export const generateQuiz = async (context: Chunk[], config: QuizConfig): Promise<QuizResult> => {
+    ensureConfigured();
+
+    const quiz: QuizQuestion[] = [];
+    const retries: QuizRetry[] = [];
+    let issues: QuizIssue[] = [];
+
+    for (let attempt = 1; attempt <= MAX_QUIZ_ATTEMPTS && quiz.length < config.questionCount; attempt++) {
+        let responseText: string;
+        try {
+            responseText = await getProvider().generate(buildRequest('quiz', {
+                excerpts: context,
+                questionCount: config.questionCount,
+                difficulty: config.difficulty,
+                types: config.types,
+                retries,
+            }));
+        } catch (error) {
+            console.error('Error generating quiz:', error);
+            if (quiz.length > 0) break;
+            throw toLlmError(error);
+        }
+
+        let payload: unknown;
+        try {
+            payload = JSON.parse(responseText.trim());
+        } catch {
+            console.error("Received non-JSON response for quiz generation:", responseText);
+            payload = null;
+        }
+        const validation = validateQuiz(payload, config.types, quiz);
+        if (payload === null) validation.issues = [{ position: 0, message: 'the response was not valid JSON' }];
+        quiz.push(...validation.questions.slice(0, config.questionCount - quiz.length));
+        issues = validation.issues;
+
+        const missing = config.questionCount - quiz.length;
+        if (missing > 0) {
+            console.warn(`Quiz attempt ${attempt} is missing ${missing} questions:\n${describeIssues(issues)}`);
+            retries.push({ response: responseText, issues, missing, asked: quiz.map(question => question.question) });
+        }
+    }
+
+    if (quiz.length === 0) {
+        throw new LlmError('malformed', `The model did not return any valid questions.\n${describeIssues(issues)}`);
+    }
+    return {
+        quiz: quiz.map(question => shuffleOptions(groundQuizSource(context, question))),
+        issues: quiz.length < config.questionCount ? issues : [],
+    };
 };
 
-export const generateQuiz = async (reportText: string): Promise<{quiz: QuizQuestion[]}> => {
-    const apiKeyError = checkApiKey();
-    if (apiKeyError) throw new Error(apiKeyError);
+/**
+ * Asks the model whether a short free-text answer agrees with the reference answer and the
+ * document excerpts the question was drawn from.
+ */
+export const gradeFreeTextAnswer = async (question: FreeTextQuestion, answer: string, context: Chunk[]): Promise<FreeTextGrade> => {
+    ensureConfigured();
 
-    const prompt = `Create a 5-question multiple-choice quiz based on the following document. The response must be a valid JSON object with a single 'quiz' key. The value of 'quiz' should be an array of objects. Each object in the array must have the following keys: 'question' (string), 'options' (array of strings, exactly 4 options), and 'correctAnswer' (string, the correct option). Do not include any other text in the response, just the JSON.
+    try {
+        const responseText = await getProvider().generate(buildRequest('grade', {
+            excerpts: context,
+            question: question.question,
+            referenceAnswer: question.referenceAnswer,
+            answer,
+        }));
+        const parsed = parseJson(responseText);
+        return {
+            correct: parsed.correct === true,
+            feedback: typeof parsed.feedback === 'string' ? parsed.feedback : '',
+        };
+    } catch (error) {
+        console.error('Error grading answer:', error);
+        throw toLlmError(error);
+    }
+};
+
+/**
+ * Answers a learner's follow-up on a quiz question: why the correct answer is right and, when
+ * they got it wrong, where their answer went astray. Explanations are cached like summaries.
+ */
+export const explainQuizQuestion = async (question: QuizQuestion, answer: QuizAnswer | undefined, context: Chunk[]): Promise<string> => {
+    ensureConfigured();
+
+    const request = buildRequest('explain', {
+        excerpts: context,
+        question: question.question,
+        options: question.type === 'multiple_choice' || question.type === 'multi_select' ? question.options : undefined,
+        correctAnswer: formatCorrectAnswer(question),
+        learnerAnswer: formatAnswer(question, answer),
+        explanation: question.explanation,
+        sourceQuote: question.source?.quote,
+    });
+    const key = await cacheKey('explain', modelId(), request.messages[0].text);
+    const cached = await getCached(key);
+    if (cached) return cached.value;
+
+    try {
+        const explanation = await getProvider().generate(request);
+        await putCached({ key, task: 'explain', model: modelId(), value: explanation });
+        return explanation;
+    } catch (error) {
+        console.error('Error explaining question:', error);
+        throw toLlmError(error);
+    }
+};
+
+/**
+ * Generates study flashcards for one section, focused on its vocabulary and key ideas.
+ * Cards without both sides, or repeating an earlier front, are dropped.
+ */
+export const generateFlashcards = async (sectionTitle: string, sectionContent: string): Promise<{ front: string; back: string }[]> => {
+    ensureConfigured();
+
+    try {
+        const responseText = await getProvider().generate(buildRequest('flashcards', { title: sectionTitle, content: sectionContent }));
+        const parsed = parseJson(responseText);
+        const cards: { front: string; back: string }[] = [];
+        const fronts = new Set<string>();
+        for (const card of Array.isArray(parsed.cards) ? parsed.cards as unknown[] : []) {
+            if (typeof card !== 'object' || card === null) continue;
+            const { front: rawFront, back: rawBack } = card as Record<string, unknown>;
+            if (typeof rawFront !== 'string' || typeof rawBack !== 'string') continue;
+            const front = rawFront.trim();
+            const back = rawBack.trim();
+            if (!front || !back || fronts.has(front.toLowerCase())) continue;
+            fronts.add(front.toLowerCase());
+            cards.push({ front, back });
+        }
+        return cards.slice(0, MAX_FLASHCARDS_PER_SECTION);
+    } catch (error) {
+        console.error('Error generating flashcards:', error);
+        throw toLlmError(error);
+    }
+};
+
+// Only the start of a longer document is sent when extracting its glossary.
+const GLOSSARY_MAX_CHARS = 40000;
+
+/**
+ * Extracts the named concepts of a document and the relations between them, then checks the
+ * result against the text (see `validateGlossary`). Results are cached by model and prompt;
+ * pass `refresh` to extract again.
+ * @throws {LlmError} If the request fails or no term could be found in the document.
+ */
+export const extractGlossary = async (
+    document: Document,
+    options: { refresh?: boolean } = {},
+): Promise<Glossary> => {
+    ensureConfigured();
+
+    const passages: Passage[] = [];
+    let length = 0;
+    for (const passage of parsePassages(document.body)) {
+        length += passage.text.length;
+        if (length > GLOSSARY_MAX_CHARS && passages.length > 0) break;
+        passages.push(passage);
+    }
 
-Document:
-${reportText}`;
-    
+    const request = buildRequest('glossary', { excerpts: passages });
+    const key = await cacheKey('glossary', modelId(), request.messages[0].text);
+    let responseText = options.refresh ? null : (await getCached(key))?.value ?? null;
     try {
-        const response = await ai!.models.generateContent({
-            model: modelName,
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        "quiz": {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    "question": { type: Type.STRING },
-                                    "options": {
-                                        type: Type.ARRAY,
-                                        items: { type: Type.STRING },
-                                    },
-                                    "correctAnswer": { type: Type.STRING }
-                                },
-                                propertyOrdering: ["question", "options", "correctAnswer"]
-                            }
-                        }
-                    }
-                }
-            }
-        });
-
-        const jsonText = response.text.trim();
-        if (!jsonText.startsWith('{') && !jsonText.startsWith('[')) {
-            console.error("Received non-JSON response for quiz generation:", jsonText);
-            throw new Error("Invalid response format from API.");
+        if (!responseText) {
+            responseText = await getProvider().generate(request);
         }
-        return JSON.parse(jsonText);
+        const { terms, relations } = validateGlossary(document.body, parseJson(responseText));
+        if (terms.length === 0) throw new LlmError('malformed', 'None of the concepts the model returned could be found in the document.');
+        await putCached({ key, task: 'glossary', model: modelId(), value: responseText });
+        return { documentId: document.id, revision: document.revision, terms, relations, createdAt: new Date().toISOString() };
     } catch (error) {
-        console.error('Error generating quiz:', error);
-        throw new Error('Failed to generate quiz. Please try again.');
+        console.error('Error extracting glossary:', error);
+        throw toLlmError(error);
     }
 };
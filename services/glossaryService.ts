@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { parseOutline, parsePassages, flattenOutline, slugify } from './documentParser';
+import { foldText, flattenText, highlightSpan, clearHighlights } from './domHighlighter';
+import type { ConceptRelation, Glossary, GlossaryTerm } from '../types';
+
+const STORAGE_KEY = 'trillium.glossaries';
+
+// Names shorter than this (such as "0" or "-1") are not linked, as they would match all over the page.
+const MIN_LINK_LENGTH = 3;
+
+// Tags whose text is never turned into a term link.
+const UNLINKED_TAGS = 'h1, h2, h3, h4, h5, h6, a, code, pre';
+
+export const TERM_LINK_CLASS = 'bg-transparent text-inherit underline decoration-dotted decoration-blue-500 underline-offset-4 cursor-help';
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isTerm = (value: unknown): value is GlossaryTerm => {
+  if (!value || typeof value !== 'object') return false;
+  const { id, term, aliases, definition, anchor, quote } = value as Record<string, unknown>;
+  return typeof id === 'string' && typeof term === 'string' && isStringList(aliases) && typeof definition === 'string'
+    && typeof anchor === 'string' && (quote === undefined || typeof quote === 'string');
+};
+
+const isRelation = (value: unknown): value is ConceptRelation => {
+  if (!value || typeof value !== 'object') return false;
+  const { source, target, label } = value as Record<string, unknown>;
+  return typeof source === 'string' && typeof target === 'string' && typeof label === 'string';
+};
+
+const isGlossary = (value: unknown): value is Glossary => {
+  if (!value || typeof value !== 'object') return false;
+  const { documentId, revision, terms, relations, createdAt } = value as Record<string, unknown>;
+  return typeof documentId === 'string' && typeof revision === 'number' && typeof createdAt === 'string'
+    && Array.isArray(terms) && terms.every(isTerm) && Array.isArray(relations) && relations.every(isRelation);
+};
+
+/**
+ * Reads every stored glossary, keyed by document id, skipping any that is not a glossary.
+ * @returns The stored glossaries, or none if nothing is stored or the data is unreadable.
+ */
+const readGlossaries = (): Record<string, Glossary> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const data: unknown = raw ? JSON.parse(raw) : {};
+    if (!data || typeof data !== 'object' || Array.isArray(data)) return {};
+    return Object.fromEntries(Object.entries(data).filter((entry): entry is [string, Glossary] => isGlossary(entry[1])));
+  } catch (error) {
+    console.error('Error reading glossaries:', error);
+    return {};
+  }
+};
+
+export const loadGlossary = (documentId: string): Glossary | null => readGlossaries()[documentId] ?? null;
+
+export const saveGlossary = (glossary: Glossary) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readGlossaries(), [glossary.documentId]: glossary }));
+};
+
+export const deleteGlossary = (documentId: string) => {
+  const glossaries = readGlossaries();
+  delete glossaries[documentId];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(glossaries));
+};
+
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}]/u.test(char);
+
+// Finds `needle` in `haystack` as a whole word or phrase, from `from` on.
+const indexOfWord = (haystack: string, needle: string, from = 0): number => {
+  for (let index = haystack.indexOf(needle, from); index !== -1; index = haystack.indexOf(needle, index + 1)) {
+    if (!isWordChar(haystack[index - 1]) && !isWordChar(haystack[index + needle.length])) return index;
+  }
+  return -1;
+};
+
+/**
+ * Checks the model's glossary against the document: a term is kept only if its name or one
+ * of its aliases appears in the text, aliases and quotes that do not appear are dropped, and
+ * an anchor that is not in the outline is replaced by the first section mentioning the term.
+ * Relations are kept only between kept terms.
+ */
+export const validateGlossary = (
+  markdown: string,
+  raw: { terms?: unknown; relations?: unknown },
+): Pick<Glossary, 'terms' | 'relations'> => {
+  const passages = parsePassages(markdown);
+  const foldedPassages = passages.map(passage => foldText(passage.text));
+  const text = foldedPassages.join(' ');
+  const anchors = new Set(flattenOutline(parseOutline(markdown)).map(node => node.id));
+  const appears = (name: string) => indexOfWord(text, foldText(name)) !== -1;
+
+  const terms: GlossaryTerm[] = [];
+  const byName = new Map<string, string>();
+  for (const item of Array.isArray(raw.terms) ? raw.terms : []) {
+    if (typeof item?.term !== 'string' || typeof item.definition !== 'string') continue;
+    const term = item.term.trim();
+    const definition = item.definition.trim();
+    const id = slugify(term);
+    if (!term || !definition || terms.some(existing => existing.id === id)) continue;
+    const aliases = (Array.isArray(item.aliases) ? item.aliases : [])
+      .filter((alias: unknown): alias is string => typeof alias === 'string' && alias.trim() !== '')
+      .map((alias: string) => alias.trim())
+      .filter((alias: string) => foldText(alias) !== foldText(term) && appears(alias));
+    const names = [term, ...aliases];
+    if (!names.some(appears)) continue;
+
+    let anchor = typeof item.anchor === 'string' && anchors.has(item.anchor) ? item.anchor : '';
+    if (!anchor) {
+      const mentioning = foldedPassages.findIndex(passage => names.some(name => indexOfWord(passage, foldText(name)) !== -1));
+      anchor = passages[mentioning]?.anchor ?? '';
+    }
+    const quote = typeof item.quote === 'string' && item.quote.trim() && text.includes(foldText(item.quote))
+      ? item.quote.trim()
+      : undefined;
+
+    terms.push({ id, term, aliases, definition, anchor, quote });
+    for (const name of names) byName.set(foldText(name), id);
+    byName.set(id, id);
+  }
+
+  const relations: ConceptRelation[] = [];
+  for (const item of Array.isArray(raw.relations) ? raw.relations : []) {
+    if (typeof item?.source !== 'string' || typeof item.target !== 'string' || typeof item.label !== 'string') continue;
+    const source = byName.get(foldText(item.source)) ?? byName.get(slugify(item.source));
+    const target = byName.get(foldText(item.target)) ?? byName.get(slugify(item.target));
+    const label = item.label.trim();
+    if (!source || !target || source === target || !label) continue;
+    if (relations.some(relation => relation.source === source && relation.target === target)) continue;
+    relations.push({ source, target, label });
+  }
+
+  return { terms, relations };
+};
+
+// Every name a term can be linked by. "The Sphere" is also found as plain "Sphere".
+const linkNames = (term: GlossaryTerm): string[] => {
+  const names = new Set<string>();
+  for (const name of [term.term, ...term.aliases]) {
+    const folded = foldText(name);
+    names.add(folded);
+    if (folded.startsWith('the ')) names.add(folded.slice(4));
+  }
+  return [...names].filter(name => name.replace(/[^\p{L}\p{N}]/gu, '').length >= MIN_LINK_LENGTH);
+};
+
+/**
+ * Finds every mention of the glossary terms in folded text (see `foldText`). Longer names win
+ * where mentions overlap, so "Consciousness Filter" is not also matched as "Filter".
+ * @returns Non-overlapping `[start, end, termId]` spans in text order.
+ */
+export const findTermRanges = (text: string, terms: GlossaryTerm[]): [number, number, string][] => {
+  const names = terms
+    .flatMap(term => linkNames(term).map(name => ({ name, id: term.id })))
+    .sort((a, b) => b.name.length - a.name.length);
+  const ranges: [number, number, string][] = [];
+  for (const { name, id } of names) {
+    for (let start = indexOfWord(text, name); start !== -1; start = indexOfWord(text, name, start + 1)) {
+      const end = start + name.length;
+      if (!ranges.some(([from, to]) => start < to && end > from)) ranges.push([start, end, id]);
+    }
+  }
+  return ranges.sort((a, b) => a[0] - b[0]);
+};
+
+/**
+ * Marks every mention of the glossary terms under `root` as a focusable term link, leaving
+ * headings, links and code alone. Links from an earlier call are removed first.
+ */
+export const linkGlossaryTerms = (root: HTMLElement, terms: GlossaryTerm[]) => {
+  clearHighlights(root, 'term');
+  if (terms.length === 0) return;
+  const flat = flattenText(root);
+  // Marked from the end, so the text nodes earlier spans point into are not split under them.
+  for (const [start, end, id] of findTermRanges(flat.text, terms).reverse()) {
+    if (flat.positions[start].node.parentElement?.closest(UNLINKED_TAGS)) continue;
+    const [first] = highlightSpan(flat, start, end, 'term', TERM_LINK_CLASS, id);
+    if (first) first.tabIndex = 0;
+  }
+};
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+const ITERATIONS = 300;
+
+/**
+ * Places the nodes of a graph with a force-directed layout (Fruchterman-Reingold): every pair
+ * of nodes pushes apart, edges pull their ends together, and the moves shrink each round until
+ * the layout settles. Nodes start evenly spaced on a circle, so the same graph always gets the
+ * same layout.
+ * @returns The position of each node, inside `width` by `height` less `margin` on every side.
+ */
+export const layoutGraph = (
+  ids: string[],
+  edges: { source: string; target: string }[],
+  width: number,
+  height: number,
+  margin = 40,
+): Record<string, Point> => {
+  const positions: Record<string, Point> = {};
+  if (ids.length === 0) return positions;
+  const innerWidth = width - margin * 2;
+  const innerHeight = height - margin * 2;
+  const ideal = 0.6 * Math.sqrt((innerWidth * innerHeight) / ids.length);
+  ids.forEach((id, index) => {
+    const angle = (2 * Math.PI * index) / ids.length;
+    positions[id] = { x: width / 2 + Math.cos(angle) * innerWidth / 3, y: height / 2 + Math.sin(angle) * innerHeight / 3 };
+  });
+  const links = edges.filter(edge => positions[edge.source] && positions[edge.target] && edge.source !== edge.target);
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const moves: Record<string, Point> = Object.fromEntries(ids.map(id => [id, { x: 0, y: 0 }]));
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const a = positions[ids[i]];
+        const b = positions[ids[j]];
+        const dx = a.x - b.x || 0.01;
+        const dy = a.y - b.y;
+        const distance = Math.max(Math.hypot(dx, dy), 0.01);
+        const force = (ideal * ideal) / distance;
+        moves[ids[i]].x += (dx / distance) * force;
+        moves[ids[i]].y += (dy / distance) * force;
+        moves[ids[j]].x -= (dx / distance) * force;
+        moves[ids[j]].y -= (dy / distance) * force;
+      }
+    }
+    for (const { source, target } of links) {
+      const dx = positions[source].x - positions[target].x;
+      const dy = positions[source].y - positions[target].y;
+      const distance = Math.max(Math.hypot(dx, dy), 0.01);
+      const force = (distance * distance) / ideal;
+      moves[source].x -= (dx / distance) * force;
+      moves[source].y -= (dy / distance) * force;
+      moves[target].x += (dx / distance) * force;
+      moves[target].y += (dy / distance) * force;
+    }
+    const temperature = (innerWidth / 10) * (1 - iteration / ITERATIONS);
+    for (const id of ids) {
+      const move = moves[id];
+      const length = Math.max(Math.hypot(move.x, move.y), 0.01);
+      const step = Math.min(length, temperature);
+      positions[id] = {
+        x: Math.min(width - margin, Math.max(margin, positions[id].x + (move.x / length) * step)),
+        y: Math.min(height - margin, Math.max(margin, positions[id].y + (move.y / length) * step)),
+      };
+    }
+  }
+  return positions;
+};
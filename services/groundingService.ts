@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Passage } from './documentParser';
+import type { Citation } from '../types';
+
+type RawCitation = Omit<Citation, 'verified'>;
+
+/**
+ * Lays the document out as plain-text passages under `[anchor]` labels, so the model can cite
+ * a section by anchor and quote text exactly as it appears on the rendered page.
+ */
+export const buildAnnotatedDocument = (passages: Passage[]): string => {
+  const blocks: string[] = [];
+  let currentAnchor: string | null = null;
+  for (const passage of passages) {
+    if (passage.anchor !== currentAnchor) {
+      currentAnchor = passage.anchor;
+      blocks.push(`[${passage.anchor || 'top'}] ${passage.title}`.trim());
+    }
+    if (passage.text !== passage.title) blocks.push(passage.text);
+  }
+  return blocks.join('\n\n');
+};
+
+const normalize = (text: string): string => {
+  return text
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+};
+
+/**
+ * Checks each citation's quote against the document. A quote found in the cited section is
+ * kept as is; one found elsewhere is re-pointed at the section that actually contains it;
+ * one found nowhere is kept but marked unverified so the UI can flag it.
+ */
+export const groundCitations = (passages: Passage[], citations: RawCitation[]): Citation[] => {
+  return citations.map(citation => {
+    // Models sometimes wrap the quote in quotation marks of their own.
+    const quote = citation.quote.trim().replace(/^["“']+|["”']+$/g, '');
+    const needle = normalize(quote);
+    const contains = (passage: Passage) => needle.length > 0 && normalize(passage.text).includes(needle);
+    const source = passages.find(passage => passage.anchor === citation.anchor && contains(passage))
+      ?? passages.find(contains);
+    return {
+      id: citation.id,
+      anchor: source ? source.anchor : citation.anchor,
+      quote,
+      verified: !!source,
+    };
+  });
+};
+
+/**
+ * Reads the (possibly still incomplete) value of a top-level string field from a JSON document
+ * that is being streamed, so the answer can be shown before the whole object has arrived.
+ */
+export const extractPartialString = (json: string, field: string): string => {
+  const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(json);
+  if (!match) return '';
+  let raw = '';
+  for (let i = match.index + match[0].length; i < json.length; i++) {
+    const char = json[i];
+    if (char === '"') break;
+    if (char === '\\') {
+      // Stop before an escape sequence that has not fully arrived yet.
+      const escape = json[i + 1] === 'u' ? json.slice(i, i + 6) : json.slice(i, i + 2);
+      if (escape.length < (json[i + 1] === 'u' ? 6 : 2)) break;
+      raw += escape;
+      i += escape.length - 1;
+      continue;
+    }
+    raw += char;
+  }
+  try {
+    return JSON.parse(`"${raw}"`);
+  } catch {
+    return '';
+  }
+};
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { LlmErrorKind } from '../types';
+
+const DEFAULT_MESSAGES: Record<LlmErrorKind, string> = {
+  auth: 'The model provider is not configured, or its API key was rejected.',
+  rate_limited: 'The model is receiving too many requests. Please wait a moment and try again.',
+  quota: 'The API quota has been used up. Check your plan and billing details, or try again later.',
+  offline: 'Could not reach the model. Check your internet connection and try again.',
+  safety: 'The model declined to respond because its safety filters flagged the request or the response.',
+  malformed: 'The model returned a response that could not be read. Please try again.',
+  unavailable: 'The model service is temporarily unavailable. Please try again.',
+  unknown: 'Something went wrong while contacting the model. Please try again.',
+};
+
+// Failures that may well succeed if the same request is sent again a little later.
+const TRANSIENT: LlmErrorKind[] = ['rate_limited', 'offline', 'unavailable'];
+
+export const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+// A server asking us to wait longer than this is not retried automatically.
+const MAX_DELAY_MS = 8000;
+
+/**
+ * A failed model request, classified so the UI can explain it and decide whether retrying
+ * makes sense. Every provider error reaches callers of `getProvider()` as one of these.
+ */
+export class LlmError extends Error {
+  readonly kind: LlmErrorKind;
+  readonly status?: number; // HTTP status, when the failure came from the server
+  readonly retryAfterMs?: number; // How long the server asked us to wait, if it said
+
+  constructor(kind: LlmErrorKind, message?: string, options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message || DEFAULT_MESSAGES[kind], { cause: options.cause });
+    this.name = 'LlmError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get transient(): boolean {
+    return TRANSIENT.includes(this.kind);
+  }
+}
+
+export const isAbortError = (error: unknown): boolean => error instanceof Error && error.name === 'AbortError';
+
+// Reads a wait such as `"retryDelay": "37s"` from a Gemini error message.
+const retryDelayIn = (message: string): number | undefined => {
+  const match = /retry ?delay"?\s*:\s*"?(\d+(?:\.\d+)?)s/i.exec(message);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+/**
+ * Classifies an HTTP failure by status and, for 429s, by whether the message talks about a
+ * short-term rate limit or an exhausted quota.
+ */
+export const errorFromStatus = (
+  status: number,
+  message: string,
+  options: { retryAfterMs?: number; cause?: unknown } = {},
+): LlmError => {
+  const details = { status, retryAfterMs: options.retryAfterMs ?? retryDelayIn(message), cause: options.cause };
+  if (status === 401 || status === 403) return new LlmError('auth', undefined, details);
+  if (status === 429) {
+    const quota = !/per ?minute|rate/i.test(message) && /quota|billing|insufficient/i.test(message);
+    return new LlmError(quota ? 'quota' : 'rate_limited', undefined, details);
+  }
+  if (status === 408 || status >= 500) return new LlmError('unavailable', undefined, details);
+  return new LlmError('unknown', message || undefined, details);
+};
+
+/**
+ * Turns anything a provider throws into an `LlmError`. Errors carrying an HTTP status (such as
+ * the Gemini SDK's `ApiError`) are classified by it; failed fetches count as being offline.
+ */
+export const toLlmError = (error: unknown): LlmError => {
+  if (error instanceof LlmError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return errorFromStatus(status, message, { cause: error });
+  if ((typeof navigator !== 'undefined' && navigator.onLine === false) || /failed to fetch|networkerror|fetch failed|network request failed|load failed/i.test(message)) {
+    return new LlmError('offline', undefined, { cause: error });
+  }
+  return new LlmError('unknown', undefined, { cause: error });
+};
+
+/**
+ * How long to wait before retry number `attempt` (from 0): the server's own hint when it gave
+ * one, otherwise exponential backoff with jitter so parallel requests do not retry in step.
+ */
+export const retryDelay = (attempt: number, error: LlmError): number => {
+  if (error.retryAfterMs !== undefined) return error.retryAfterMs;
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return ceiling / 2 + Math.random() * ceiling / 2;
+};
+
+/**
+ * Resolves after `ms`, or rejects with an AbortError as soon as `signal` is aborted.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  const abort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', abort);
+    resolve();
+  }, ms);
+  if (signal?.aborted) abort();
+  else signal?.addEventListener('abort', abort, { once: true });
+});
+
+/**
+ * Decides whether to retry a failure and waits before doing so.
+ * @returns The failure as an `LlmError` if it should not be retried, otherwise undefined once it is time to try again.
+ */
+export const backOff = async (error: unknown, attempt: number, signal?: AbortSignal): Promise<LlmError | undefined> => {
+  const llmError = toLlmError(error);
+  if (!llmError.transient || attempt >= MAX_RETRIES) return llmError;
+  const delay = retryDelay(attempt, llmError);
+  if (delay > MAX_DELAY_MS) return llmError;
+  console.warn(`Retrying model request in ${Math.round(delay)} ms:`, llmError.message);
+  await sleep(delay, signal);
+  return undefined;
+};
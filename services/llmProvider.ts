@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createOpenAiCompatibleProvider } from './providers/openAiCompatibleProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { createProxyProvider } from './providers/proxyProvider';
+import { backOff, isAbortError, toLlmError } from './llmErrors';
+import type { TaskInput } from './prompts';
+import type { UrlContextMetadataItem } from '../types';
+
+// What a request is for. Providers may ignore it; the mock provider uses it to pick a fixture.
+export type LlmTask = 'summary' | 'answer' | 'quiz' | 'grade' | 'explain' | 'flashcards' | 'sources' | 'glossary';
+
+/**
+ * A provider-neutral subset of JSON Schema, used to ask for structured output. Object
+ * properties are listed in the order the model should produce them.
+ */
+export type JsonSchema =
+  | { type: 'string'; enum?: string[] }
+  | { type: 'integer' | 'number' | 'boolean' }
+  | { type: 'array'; items: JsonSchema }
+  | { type: 'object'; properties: Record<string, JsonSchema>; required?: string[] };
+
+export interface LlmMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface LlmRequest {
+  task: LlmTask;
+  system?: string;
+  messages: LlmMessage[];
+  schema?: JsonSchema; // When set, the response must be JSON matching it
+  urls?: string[]; // Web pages the model should read as context; needs `supportsUrlContext`
+  input?: TaskInput; // What the request was built from (see `buildRequest`); all the API proxy sends
+  signal?: AbortSignal;
+}
+
+// What a provider reports about a request once its stream has finished.
+export interface LlmStreamResult {
+  urlContext?: UrlContextMetadataItem[]; // Retrieval status of each URL the model tried to read
+}
+
+export interface LlmProvider {
+  id: string;
+  label: string; // Shown in the UI, e.g. "Gemini (gemini-2.5-flash)"
+  model: string;
+  /**
+   * @returns A message explaining what is missing if the provider cannot be used, otherwise null.
+   */
+  configurationError: () => string | null;
+  supportsUrlContext: boolean;
+  generate: (request: LlmRequest) => Promise<string>;
+  stream: (request: LlmRequest) => AsyncGenerator<string, LlmStreamResult | void>;
+}
+
+/**
+ * Picks the provider from build-time configuration. `LLM_PROVIDER` may be `proxy` (Gemini
+ * through the API proxy, which keeps the key out of the bundle), `gemini` (direct, in the dev
+ * server only), `openai` (any OpenAI-compatible server such as Ollama) or `mock`. The Vite
+ * config defaults it to the proxy when a Gemini key is set and to the offline mock otherwise.
+ */
+const createConfiguredProvider = (): LlmProvider => {
+  const choice = process.env.LLM_PROVIDER || 'mock';
+  switch (choice) {
+    case 'openai':
+      return createOpenAiCompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL,
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.LLM_MODEL,
+      });
+    case 'proxy':
+      return createProxyProvider({ baseUrl: process.env.LLM_PROXY_URL, model: process.env.LLM_MODEL });
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider({ apiKey: process.env.API_KEY, model: process.env.LLM_MODEL });
+  }
+};
+
+/**
+ * Wraps a provider so every failure surfaces as an `LlmError`, and transient ones (rate limits,
+ * dropped connections, overloaded servers) are retried with exponential backoff. A stream is
+ * only retried if it fails before yielding any text, so callers never see a reply twice.
+ */
+const withRetries = (provider: LlmProvider): LlmProvider => ({
+  ...provider,
+  generate: async (request) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await provider.generate(request);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        const failure = await backOff(error, attempt, request.signal);
+        if (failure) throw failure;
+      }
+    }
+  },
+  stream: async function* (request): AsyncGenerator<string, LlmStreamResult | void> {
+    for (let attempt = 0; ; attempt++) {
+      let started = false;
+      try {
+        const stream = provider.stream(request);
+        let step = await stream.next();
+        while (!step.done) {
+          started = true;
+          yield step.value as string;
+          step = await stream.next();
+        }
+        return step.value as LlmStreamResult | void;
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        if (started) throw toLlmError(error);
+        const failure = await backOff(error, attempt, request.signal);
+        if (failure) throw failure;
+      }
+    }
+  },
+});
+
+let activeProvider: LlmProvider | null = null;
+
+export const getProvider = (): LlmProvider => {
+  if (!activeProvider) activeProvider = withRetries(createConfiguredProvider());
+  return activeProvider;
+};
+
+/**
+ * Replaces the active provider, e.g. with a mock carrying fixtures in automated tests.
+ */
+export const setProvider = (provider: LlmProvider) => {
+  activeProvider = withRetries(provider);
+};
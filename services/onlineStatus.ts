@@ -0,0 +1,27 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useState, useEffect } from 'react';
+
+/**
+ * Tracks whether the browser believes it has a network connection. `navigator.onLine` can
+ * report being online without real connectivity, so requests still classify their own
+ * failures; this only drives the offline banner.
+ */
+export const useOnlineStatus = (): boolean => {
+  const [online, setOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return online;
+};
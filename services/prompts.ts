@@ -0,0 +1,312 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { QuizDifficulty, QuizQuestionType, SummaryStyle } from '../types';
+import type { Passage } from './documentParser';
+import { buildAnnotatedDocument } from './groundingService';
+import type { JsonSchema, LlmMessage, LlmRequest, LlmTask } from './llmProvider';
+import type { QuizIssue } from './quizService';
+
+// The prompts are provider-neutral and built from task inputs alone, so the API proxy can
+// rebuild them on the server instead of forwarding prompts written by its clients.
+
+/**
+ * What each task's prompt is built from. These are the only things the API proxy accepts.
+ */
+export interface TaskInputs {
+  summary:
+    | { kind: 'section'; documentTitle?: string; title: string; content: string; style: SummaryStyle }
+    | { kind: 'merge'; documentTitle: string; summaries: string[] }
+    | { kind: 'document'; documentTitle: string; summaries: string[]; style: SummaryStyle };
+  answer: { excerpts: Passage[]; history: LlmMessage[]; question: string };
+  quiz: {
+    excerpts: Passage[];
+    questionCount: number;
+    difficulty: QuizDifficulty;
+    types: QuizQuestionType[];
+    retries: QuizRetry[]; // Earlier attempts that came back incomplete, oldest first
+  };
+  grade: { excerpts: Passage[]; question: string; referenceAnswer: string; answer: string };
+  explain: {
+    excerpts: Passage[];
+    question: string;
+    options?: string[];
+    correctAnswer: string;
+    learnerAnswer: string;
+    explanation: string;
+    sourceQuote?: string;
+  };
+  flashcards: { title: string; content: string };
+  sources: { urls: string[]; history: LlmMessage[]; question: string };
+  glossary: { excerpts: Passage[] };
+}
+
+export interface QuizRetry {
+  response: string; // The model's reply, replayed so it can see what it got wrong
+  issues: QuizIssue[];
+  missing: number;
+  asked: string[]; // Every question accepted so far, which the replacements must not repeat
+}
+
+export type TaskInput = TaskInputs[LlmTask];
+
+export const MAX_FLASHCARDS_PER_SECTION = 6;
+
+const SUMMARY_STYLE_INSTRUCTIONS: Record<SummaryStyle, string> = {
+  tldr: 'in a single sentence of at most 30 words',
+  paragraph: 'in a concise paragraph',
+  outline: 'as a detailed Markdown bullet outline, with nested bullets for supporting points',
+  eli5: 'in a short paragraph a ten-year-old could follow, using everyday words and one concrete analogy',
+  expert: 'in a dense paragraph for a specialist, keeping the precise terminology and noting assumptions and implications',
+};
+
+const SUMMARY_RULES = 'Do not use markdown headers or titles. Do not introduce the summary with phrases like "This section is about" or "In this section...". Just provide the summary.';
+
+const QUESTION_TYPE_INSTRUCTIONS: Record<QuizQuestionType, string> = {
+  multiple_choice: `"multiple_choice": 'options' holds exactly 4 options and 'correctAnswer' the correct one, copied exactly.`,
+  true_false: `"true_false": 'question' is a statement about the document and 'correctAnswer' is "true" or "false".`,
+  multi_select: `"multi_select": 'options' holds 4 to 6 options and 'correctAnswers' every correct one (at least two), copied exactly.`,
+  ordering: `"ordering": 'question' asks to put stages, steps or values in order and 'items' lists 3 to 6 of them in the correct order.`,
+  free_text: `"free_text": 'question' asks for a short explanation and 'correctAnswer' holds a model answer of one or two sentences.`,
+};
+
+const DIFFICULTY_INSTRUCTIONS: Record<QuizDifficulty, string> = {
+  easy: 'Ask about facts stated directly in the excerpts.',
+  medium: 'Mix facts stated directly with questions that connect ideas from different excerpts.',
+  hard: 'Ask questions that require combining or reasoning about several ideas, and make wrong options plausible.',
+};
+
+export const SUMMARY_STYLES = Object.keys(SUMMARY_STYLE_INSTRUCTIONS) as SummaryStyle[];
+export const QUESTION_TYPES = Object.keys(QUESTION_TYPE_INSTRUCTIONS) as QuizQuestionType[];
+export const QUIZ_DIFFICULTIES = Object.keys(DIFFICULTY_INSTRUCTIONS) as QuizDifficulty[];
+
+// `answer` precedes `citations` so it can be shown while the rest is still streaming.
+const groundedAnswerSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['answered', 'not_found'] },
+    answer: { type: 'string' },
+    citations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          anchor: { type: 'string' },
+          quote: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
+// One flat shape for every question type; which fields are used depends on `type`.
+const quizSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    quiz: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: QUESTION_TYPES },
+          question: { type: 'string' },
+          options: { type: 'array', items: { type: 'string' } },
+          correctAnswer: { type: 'string' },
+          correctAnswers: { type: 'array', items: { type: 'string' } },
+          items: { type: 'array', items: { type: 'string' } },
+          explanation: { type: 'string' },
+          sourceAnchor: { type: 'string' },
+          sourceQuote: { type: 'string' },
+        },
+        required: ['type', 'question', 'explanation'],
+      },
+    },
+  },
+};
+
+const flashcardSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    cards: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          front: { type: 'string' },
+          back: { type: 'string' },
+        },
+        required: ['front', 'back'],
+      },
+    },
+  },
+};
+
+const glossarySchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    terms: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          term: { type: 'string' },
+          aliases: { type: 'array', items: { type: 'string' } },
+          definition: { type: 'string' },
+          anchor: { type: 'string' },
+          quote: { type: 'string' },
+        },
+        required: ['term', 'definition', 'anchor'],
+      },
+    },
+    relations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          source: { type: 'string' },
+          target: { type: 'string' },
+          label: { type: 'string' },
+        },
+        required: ['source', 'target', 'label'],
+      },
+    },
+  },
+};
+
+const gradeSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    correct: { type: 'boolean' },
+    feedback: { type: 'string' },
+  },
+};
+
+export const describeIssues = (issues: QuizIssue[]): string => {
+  return issues
+    .map(issue => issue.position > 0 ? `- Question ${issue.position}: ${issue.message}` : `- ${issue.message}`)
+    .join('\n');
+};
+
+const summaryPrompt = (input: TaskInputs['summary']): string => {
+  switch (input.kind) {
+    case 'section': {
+      const source = input.documentTitle ? `the document "${input.documentTitle}"` : 'a document';
+      return `Summarize the following section from ${source} ${SUMMARY_STYLE_INSTRUCTIONS[input.style]}. ${SUMMARY_RULES}
+
+Section Title: ${input.title}
+Section Content: ${input.content}`;
+    }
+    case 'merge':
+      return `Merge the following consecutive section summaries from the document "${input.documentTitle}" into one paragraph that keeps every key point. ${SUMMARY_RULES}
+
+Section Summaries:
+${input.summaries.join('\n\n')}`;
+    case 'document':
+      return `Write an executive summary of the document "${input.documentTitle}" ${SUMMARY_STYLE_INSTRUCTIONS[input.style]}, based on the section summaries below. Cover the document's purpose, its main ideas and how they connect. ${SUMMARY_RULES}
+
+Section Summaries:
+${input.summaries.join('\n\n')}`;
+  }
+};
+
+const answerSystem = (input: TaskInputs['answer']): string => `You answer questions about a document using the excerpts below. Each section is introduced by its anchor in square brackets. Use earlier turns of the conversation to resolve follow-up questions.
+
+Respond with a JSON object:
+- "status": "answered" if the excerpts support an answer, otherwise "not_found".
+- "answer": the answer in Markdown. After each claim, add footnote markers such as [1] or [2] pointing to the citations that support it. If the status is "not_found", briefly say that the document does not cover the question and add no markers.
+- "citations": one entry per footnote marker, with "id" (the marker number), "anchor" (the section anchor, without brackets) and "quote" (a short span copied verbatim from that section, at most one sentence).
+
+Excerpts:
+${buildAnnotatedDocument(input.excerpts)}`;
+
+// The first request, then for each incomplete attempt the model's reply and a request to repair it.
+const quizMessages = (input: TaskInputs['quiz']): LlmMessage[] => {
+  const prompt = `Create a ${input.questionCount}-question quiz based on the following document. ${DIFFICULTY_INSTRUCTIONS[input.difficulty]} The response must be a valid JSON object with a single 'quiz' key. The value of 'quiz' should be an array of objects, each with a 'type', a 'question' and the fields its type needs:
+${input.types.map(type => `- ${QUESTION_TYPE_INSTRUCTIONS[type]}`).join('\n')}
+Question types: ${input.types.join(', ')}. Spread the questions across these types and across the excerpts. Do not repeat a question.
+Every question also needs an 'explanation' (one or two sentences on why the correct answer is correct), a 'sourceAnchor' (the anchor of the excerpt it is drawn from, without brackets) and a 'sourceQuote' (a short span copied verbatim from that excerpt, at most one sentence, that supports the answer). Do not include any other text in the response, just the JSON.
+
+Document excerpts:
+${buildAnnotatedDocument(input.excerpts)}`;
+
+  return [
+    { role: 'user', text: prompt },
+    ...input.retries.flatMap((retry): LlmMessage[] => [
+      { role: 'model', text: retry.response },
+      {
+        role: 'user',
+        text: `${retry.issues.length > 0 ? `Some of that response was invalid:\n${describeIssues(retry.issues)}\n\n` : ''}Reply with a JSON object whose 'quiz' list holds ${retry.missing} new, valid question${retry.missing === 1 ? '' : 's'} that do not repeat these:\n${retry.asked.map(question => `- ${question}`).join('\n')}`,
+      },
+    ]),
+  ];
+};
+
+const gradePrompt = (input: TaskInputs['grade']): string => `Grade a student's short answer to a quiz question about a document. Accept answers that convey the same meaning as the reference answer, even if worded differently or less complete, as long as they do not contradict the document. Respond with a JSON object with 'correct' (boolean) and 'feedback' (one or two sentences addressed to the student).
+
+Document excerpts:
+${buildAnnotatedDocument(input.excerpts)}
+
+Question: ${input.question}
+Reference answer: ${input.referenceAnswer}
+Student answer: ${input.answer}`;
+
+const explainPrompt = (input: TaskInputs['explain']): string => `A learner is reviewing a quiz about a document and wants to understand one question better. Using the document excerpts, explain in a short paragraph why the correct answer is correct, and, if the learner's answer differs, what it gets wrong. Refer to what the document says rather than general knowledge. Reply in plain text without Markdown.
+
+Document excerpts:
+${buildAnnotatedDocument(input.excerpts)}
+
+Question: ${input.question}${input.options ? `\nOptions: ${input.options.join(' | ')}` : ''}
+Correct answer: ${input.correctAnswer}
+Learner's answer: ${input.learnerAnswer}
+Short explanation already shown: ${input.explanation}${input.sourceQuote ? `\nSource quote: ${input.sourceQuote}` : ''}`;
+
+const flashcardPrompt = (input: TaskInputs['flashcards']): string => `Create up to ${MAX_FLASHCARDS_PER_SECTION} flashcards for learning the following section of a document. Focus on its named concepts, terms and key claims. The 'front' of each card is a term or a short question; the 'back' is a concise answer of one or two sentences taken from the section. Respond with a JSON object with a single 'cards' key holding the list of cards.
+
+Section Title: ${input.title}
+Section Content: ${input.content}`;
+
+const glossaryPrompt = (input: TaskInputs['glossary']): string => `Build a glossary of the named concepts in the document below, such as models, components, stages, principles and technical terms the document introduces or relies on. Skip people's names and everyday words.
+For each concept give:
+- 'term': its name exactly as the document writes it.
+- 'aliases': other names or symbols the document uses for it, exactly as written.
+- 'definition': one or two sentences defining it, based only on the document.
+- 'anchor': the [anchor] label of the section that defines it.
+- 'quote': a short sentence copied word for word from the document that supports the definition.
+Then list 'relations' between the concepts, each with a 'source' and 'target' term and a short 'label' such as "is part of", "feeds into" or "contrasts with". Only include relations the document states or clearly implies.
+Respond with a JSON object with 'terms' and 'relations' keys.
+
+${buildAnnotatedDocument(input.excerpts)}`;
+
+const SOURCES_SYSTEM = `Answer the user's questions using the content of the web pages they list. Say which page each part of the answer comes from. If the pages do not cover the question, or could not be read, say so instead of answering from general knowledge.`;
+
+type RequestParts = Omit<LlmRequest, 'task' | 'input' | 'signal'>;
+
+const REQUEST_BUILDERS: { [T in LlmTask]: (input: TaskInputs[T]) => RequestParts } = {
+  summary: input => ({ messages: [{ role: 'user', text: summaryPrompt(input) }] }),
+  answer: input => ({
+    system: answerSystem(input),
+    messages: [...input.history, { role: 'user', text: input.question }],
+    schema: groundedAnswerSchema,
+  }),
+  quiz: input => ({ messages: quizMessages(input), schema: quizSchema }),
+  grade: input => ({ messages: [{ role: 'user', text: gradePrompt(input) }], schema: gradeSchema }),
+  explain: input => ({ messages: [{ role: 'user', text: explainPrompt(input) }] }),
+  flashcards: input => ({ messages: [{ role: 'user', text: flashcardPrompt(input) }], schema: flashcardSchema }),
+  sources: input => ({
+    system: SOURCES_SYSTEM,
+    messages: [...input.history, { role: 'user', text: `${input.question}\n\nSources:\n${input.urls.map(url => `- ${url}`).join('\n')}` }],
+    urls: input.urls,
+  }),
+  glossary: input => ({ messages: [{ role: 'user', text: glossaryPrompt(input) }], schema: glossarySchema }),
+};
+
+/**
+ * Builds the request for a task from its inputs. The inputs travel with the request, so that the
+ * API proxy can send them alone and the server can build the same request.
+ */
+export const buildRequest = <T extends LlmTask>(task: T, input: TaskInputs[T], signal?: AbortSignal): LlmRequest => {
+  return { task, ...REQUEST_BUILDERS[task](input), input, signal };
+};
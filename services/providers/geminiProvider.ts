@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI, Type } from "@google/genai";
+import type { GenerateContentResponse, Schema } from "@google/genai";
+import { LlmError } from '../llmErrors';
+import type { JsonSchema, LlmProvider, LlmRequest } from '../llmProvider';
+import type { UrlContextMetadataItem } from '../../types';
+
+const DEFAULT_MODEL = "gemini-2.5-flash";
+
+const SCHEMA_TYPES: Record<JsonSchema['type'], Type> = {
+  string: Type.STRING,
+  integer: Type.INTEGER,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN,
+  array: Type.ARRAY,
+  object: Type.OBJECT,
+};
+
+// Converts a provider-neutral schema to Gemini's, keeping property order via `propertyOrdering`.
+const toGeminiSchema = (schema: JsonSchema): Schema => {
+  switch (schema.type) {
+    case 'object':
+      return {
+        type: Type.OBJECT,
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+        required: schema.required,
+        propertyOrdering: Object.keys(schema.properties),
+      };
+    case 'array':
+      return { type: Type.ARRAY, items: toGeminiSchema(schema.items) };
+    case 'string':
+      return { type: Type.STRING, enum: schema.enum };
+    default:
+      return { type: SCHEMA_TYPES[schema.type] };
+  }
+};
+
+// Reasons Gemini gives for withholding a prompt or a response on policy grounds.
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+// Gemini reports blocked content as an empty, successful response, so check for it explicitly.
+const throwIfBlocked = (response: GenerateContentResponse) => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new LlmError('safety');
+  }
+};
+
+export const createGeminiProvider = (options: { apiKey?: string; model?: string }): LlmProvider => {
+  // If no API key is set, `ai` will be null.
+  const ai = options.apiKey ? new GoogleGenAI({ apiKey: options.apiKey }) : null;
+  const model = options.model || DEFAULT_MODEL;
+
+  const toParameters = (request: LlmRequest) => ({
+    model,
+    contents: request.messages.map(message => ({ role: message.role, parts: [{ text: message.text }] })),
+    config: {
+      abortSignal: request.signal,
+      systemInstruction: request.system,
+      // The URL context tool reads pages linked from the prompt.
+      ...(request.urls?.length && { tools: [{ urlContext: {} }] }),
+      ...(request.schema && {
+        responseMimeType: "application/json",
+        responseSchema: toGeminiSchema(request.schema),
+      }),
+    },
+  });
+
+  return {
+    id: 'gemini',
+    label: `Gemini (${model})`,
+    model,
+    configurationError: () => ai
+      ? null
+      : "API Key is not configured. Please set GEMINI_API_KEY in .env.local (LLM_PROVIDER=gemini only works in the dev server).",
+    generate: async (request) => {
+      const response = await ai!.models.generateContent(toParameters(request));
+      if (!response.text) throwIfBlocked(response);
+      return response.text ?? '';
+    },
+    supportsUrlContext: true,
+    stream: async function* (request) {
+      const stream = await ai!.models.generateContentStream(toParameters(request));
+      let urlContext: UrlContextMetadataItem[] | undefined;
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+        else throwIfBlocked(chunk);
+        const metadata = chunk.candidates?.[0]?.urlContextMetadata?.urlMetadata;
+        if (metadata?.length) {
+          urlContext = metadata.map(item => ({
+            retrievedUrl: item.retrievedUrl ?? '',
+            urlRetrievalStatus: item.urlRetrievalStatus ?? 'URL_RETRIEVAL_STATUS_UNSPECIFIED',
+          }));
+        }
+      }
+      return { urlContext };
+    },
+  };
+};
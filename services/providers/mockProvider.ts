@@ -0,0 +1,253 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { LlmProvider, LlmRequest, LlmTask } from '../llmProvider';
+
+export type MockFixture = (request: LlmRequest) => string;
+
+interface ExcerptSection {
+  anchor: string;
+  title: string;
+  text: string;
+}
+
+const STREAM_SLICE = 24;
+
+const lastUserText = (request: LlmRequest): string => {
+  return [...request.messages].reverse().find(message => message.role === 'user')?.text ?? '';
+};
+
+const sentencesOf = (text: string): string[] => {
+  return (text.replace(/[#*_`>]/g, '').replace(/\s+/g, ' ').match(/[^.!?]+[.!?]+/g) ?? [text])
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+};
+
+const wordsOf = (text: string): Set<string> => new Set(text.toLowerCase().match(/[a-z0-9]{4,}/g) ?? []);
+
+// Reads back the `[anchor] Title` blocks written by `buildAnnotatedDocument`.
+const parseExcerpts = (text: string): ExcerptSection[] => {
+  const sections: ExcerptSection[] = [];
+  for (const block of text.split(/\n{2,}/)) {
+    const label = /^\[([^\]\s]*)\]\s*(.*)$/.exec(block.trim());
+    if (label) sections.push({ anchor: label[1], title: label[2], text: '' });
+    else if (sections.length > 0) sections[sections.length - 1].text += `${block.trim()} `;
+  }
+  return sections.filter(section => section.text.trim());
+};
+
+// Deterministic stand-ins for each task, built from the text in the request itself.
+const defaultFixtures: Record<LlmTask, MockFixture> = {
+  summary: (request) => {
+    const content = lastUserText(request).split(/Section (?:Content|Summaries):/).pop() ?? '';
+    return sentencesOf(content).slice(0, 2).join(' ');
+  },
+
+  // Quotes the excerpt sentence sharing the most words with the question.
+  answer: (request) => {
+    const question = wordsOf(lastUserText(request));
+    let best: { anchor: string; sentence: string; overlap: number } | null = null;
+    for (const section of parseExcerpts(request.system ?? lastUserText(request))) {
+      for (const sentence of sentencesOf(section.text)) {
+        const overlap = [...wordsOf(sentence)].filter(word => question.has(word)).length;
+        if (overlap > (best?.overlap ?? 0)) best = { anchor: section.anchor, sentence, overlap };
+      }
+    }
+    if (!best) {
+      return JSON.stringify({
+        status: 'not_found',
+        answer: 'The document does not appear to cover this question.',
+        citations: [],
+      });
+    }
+    return JSON.stringify({
+      status: 'answered',
+      answer: `According to the document: ${best.sentence} [1]`,
+      citations: [{ id: 1, anchor: best.anchor, quote: best.sentence }],
+    });
+  },
+
+  // Builds questions of the requested types from section titles and sentences, e.g. which
+  // section a sentence comes from, or the order sections appear in.
+  quiz: (request) => {
+    // Requests to repair a quiz follow the original prompt; ask for the next questions in turn.
+    const prompt = request.messages[0]?.text ?? '';
+    const repair = /holds (\d+) new/.exec(lastUserText(request));
+    const sections = parseExcerpts(prompt);
+    const titles = sections.map(section => section.title);
+    const count = Number(repair?.[1] ?? /(\d+)-question/.exec(prompt)?.[1] ?? 5);
+    const offset = request.messages.filter(message => message.role === 'model').length * count;
+    const types = (/^Question types: (.*?)\./m.exec(prompt)?.[1] ?? 'multiple_choice').split(/,\s*/);
+    if (sections.length === 0) return JSON.stringify({ quiz: [] });
+
+    const quiz = Array.from({ length: count }, (_, position) => {
+      const index = position + offset;
+      const section = sections[index % sections.length];
+      // Concept passages open with their own title, which makes for a poor question.
+      const body = sentencesOf(section.text).filter(sentence => !sentence.startsWith(section.title));
+      const sentences = body.length > 0 ? body : sentencesOf(section.text);
+      const sentence = sentences[Math.floor(index / sections.length) % sentences.length];
+      const others = titles.filter(title => title !== section.title);
+      const type = types[index % types.length];
+      const source = {
+        explanation: `The section "${section.title}" says: "${sentence}"`,
+        sourceAnchor: section.anchor,
+        sourceQuote: sentence,
+      };
+
+      if (type === 'true_false') {
+        const claimed = index % 2 === 0 || others.length === 0 ? section.title : others[index % others.length];
+        return {
+          ...source,
+          type,
+          question: `The section "${claimed}" says: "${sentence}"`,
+          correctAnswer: String(claimed === section.title),
+        };
+      }
+      if (type === 'ordering' && titles.length >= 3) {
+        const start = index % (titles.length - 2);
+        return {
+          ...source,
+          explanation: 'The sections appear in this order in the document.',
+          type,
+          question: 'Put these sections in the order they appear in the document.',
+          items: titles.slice(start, start + 4),
+        };
+      }
+      if (type === 'free_text') {
+        return { ...source, type, question: `In a sentence, what does the section "${section.title}" say?`, correctAnswer: sentence };
+      }
+      if (type === 'multi_select' && sentences.length >= 2) {
+        const distractors = sections
+          .filter(other => other !== section)
+          .map(other => sentencesOf(other.text)[0])
+          .slice(0, 2);
+        return {
+          ...source,
+          type,
+          question: `Which of these sentences come from the section "${section.title}"?`,
+          options: [sentences[0], ...distractors, sentences[1]],
+          correctAnswers: sentences.slice(0, 2),
+        };
+      }
+      const distractors = others.slice(index % 2, index % 2 + 3);
+      const options = [...distractors];
+      options.splice(index % (options.length + 1), 0, section.title);
+      return {
+        ...source,
+        type: 'multiple_choice',
+        question: `Which section of the document says: "${sentence}"?`,
+        options,
+        correctAnswer: section.title,
+      };
+    });
+    return JSON.stringify({ quiz });
+  },
+
+  // Turns the section's first sentences into cards, fronted by the section title.
+  flashcards: (request) => {
+    const prompt = lastUserText(request);
+    const title = /^Section Title: (.*)$/m.exec(prompt)?.[1] ?? 'This section';
+    const sentences = sentencesOf(prompt.split('Section Content:').pop() ?? '')
+      .filter(sentence => sentence.split(' ').length > 4);
+    const cards = sentences.slice(0, 3).map((sentence, index) => ({
+      front: `${title}: key point ${index + 1}`,
+      back: sentence,
+    }));
+    return JSON.stringify({ cards });
+  },
+
+  // Takes the bolded concepts as terms, with a trailing "(symbol)" as an alias, and relates
+  // each concept to the others its passage mentions.
+  glossary: (request) => {
+    const concepts = parseExcerpts(lastUserText(request))
+      .filter(section => section.text.startsWith(section.title))
+      .map(section => {
+        const [name] = section.title.split(':');
+        const symbol = /\(([^)]+)\)\s*$/.exec(name);
+        const definition = sentencesOf(section.text.slice(section.title.length))[0] ?? section.title;
+        return {
+          term: name.replace(/\s*\([^)]*\)\s*$/, '').trim(),
+          aliases: symbol ? [symbol[1]] : [],
+          definition,
+          anchor: section.anchor,
+          quote: definition,
+          text: section.text.toLowerCase(),
+        };
+      });
+    const bare = (term: string) => term.replace(/^the /i, '').toLowerCase();
+    const relations = concepts.flatMap(source => concepts
+      .filter(target => target !== source && source.text.includes(bare(target.term)))
+      .map(target => ({ source: source.term, target: target.term, label: 'mentions' })));
+    return JSON.stringify({ terms: concepts.map(({ text, ...term }) => term), relations });
+  },
+
+  // Cannot read the web, so only says which pages it was given.
+  sources: (request) => {
+    const urls = request.urls ?? [];
+    return `The offline mock cannot read web pages. With a real model, "${lastUserText(request).split('\n')[0]}" would be answered from:\n\n${urls.map(url => `- ${url}`).join('\n')}`;
+  },
+
+  explain: (request) => {
+    const prompt = lastUserText(request);
+    const correct = /^Correct answer: (.*)$/m.exec(prompt)?.[1] ?? '';
+    const quote = /^Source quote: (.*)$/m.exec(prompt)?.[1];
+    return `The correct answer is "${correct}".${quote ? ` The document supports this where it says: "${quote}"` : ''}`;
+  },
+
+  // Accepts an answer sharing at least half of the reference answer's words.
+  grade: (request) => {
+    const prompt = lastUserText(request);
+    const reference = wordsOf(/^Reference answer: (.*)$/m.exec(prompt)?.[1] ?? '');
+    const answer = wordsOf(/^Student answer: ([\s\S]*)$/m.exec(prompt)?.[1] ?? '');
+    const shared = [...reference].filter(word => answer.has(word)).length;
+    const correct = reference.size > 0 && shared * 2 >= reference.size;
+    return JSON.stringify({
+      correct,
+      feedback: correct
+        ? 'Your answer covers the main point of the reference answer.'
+        : 'Your answer misses the main point of the reference answer.',
+    });
+  },
+};
+
+// Pretends URLs mentioning "404" or "paywall" could not be read, so failures can be demonstrated.
+const mockUrlStatus = (url: string): string => {
+  if (/404/.test(url)) return 'URL_RETRIEVAL_STATUS_ERROR';
+  if (/paywall/i.test(url)) return 'URL_RETRIEVAL_STATUS_PAYWALL';
+  return 'URL_RETRIEVAL_STATUS_SUCCESS';
+};
+
+/**
+ * An offline provider returning deterministic output derived from the request, for demos and
+ * automated tests. Pass `fixtures` to override the response for specific tasks, and
+ * `delayMs: 0` to stream without pauses.
+ */
+export const createMockProvider = (
+  fixtures: Partial<Record<LlmTask, MockFixture>> = {},
+  options: { delayMs?: number } = {},
+): LlmProvider => {
+  const delayMs = options.delayMs ?? 20;
+  const respond = (request: LlmRequest) => (fixtures[request.task] ?? defaultFixtures[request.task])(request);
+
+  return {
+    id: 'mock',
+    label: 'Offline mock',
+    model: 'mock',
+    configurationError: () => null,
+    supportsUrlContext: true,
+    generate: async (request) => respond(request),
+    // Replays the fixture in small slices so streaming UI can be exercised.
+    stream: async function* (request) {
+      const text = respond(request);
+      for (let i = 0; i < text.length; i += STREAM_SLICE) {
+        if (request.signal?.aborted) return;
+        if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs));
+        yield text.slice(i, i + STREAM_SLICE);
+      }
+      return { urlContext: request.urls?.map(url => ({ retrievedUrl: url, urlRetrievalStatus: mockUrlStatus(url) })) };
+    },
+  };
+};
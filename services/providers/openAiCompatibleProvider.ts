@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { LlmProvider, LlmRequest } from '../llmProvider';
+import { LlmError, errorFromStatus } from '../llmErrors';
+
+interface OpenAiCompatibleOptions {
+  baseUrl?: string; // e.g. http://localhost:11434/v1 for Ollama
+  apiKey?: string; // Optional; local servers usually do not need one
+  model?: string;
+}
+
+/**
+ * A provider for any server implementing the OpenAI chat completions API, such as Ollama,
+ * LM Studio or vLLM. Structured output is requested with `response_format`, and the schema is
+ * also spelled out in the system prompt for servers that only support plain JSON mode.
+ */
+export const createOpenAiCompatibleProvider = (options: OpenAiCompatibleOptions): LlmProvider => {
+  const baseUrl = options.baseUrl?.replace(/\/+$/, '');
+  const model = options.model || 'llama3.1';
+
+  const request = async (llmRequest: LlmRequest, stream: boolean): Promise<Response> => {
+    const system = llmRequest.schema
+      ? `${llmRequest.system ?? ''}\n\nRespond only with JSON matching this schema:\n${JSON.stringify(llmRequest.schema)}`.trim()
+      : llmRequest.system;
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model,
+        stream,
+        messages: [
+          ...(system ? [{ role: 'system', content: system }] : []),
+          ...llmRequest.messages.map(message => ({
+            role: message.role === 'model' ? 'assistant' : 'user',
+            content: message.text,
+          })),
+        ],
+        ...(llmRequest.schema && { response_format: { type: 'json_object' } }),
+      }),
+      signal: llmRequest.signal,
+    });
+    if (!response.ok) {
+      // Retry-After is in seconds; servers that send a date instead are left to the usual backoff.
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      throw errorFromStatus(response.status, `Request to ${baseUrl} failed with status ${response.status}: ${await response.text()}`, {
+        retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined,
+      });
+    }
+    return response;
+  };
+
+  return {
+    id: 'openai',
+    label: `OpenAI-compatible (${model})`,
+    model,
+    configurationError: () => baseUrl
+      ? null
+      : "No server is configured. Please set the OPENAI_BASE_URL environment variable, e.g. http://localhost:11434/v1.",
+    // Chat completion servers cannot fetch web pages for the model.
+    supportsUrlContext: false,
+    generate: async (llmRequest) => {
+      const response = await request(llmRequest, false);
+      const data = await response.json();
+      if (data.choices?.[0]?.finish_reason === 'content_filter') throw new LlmError('safety');
+      return data.choices?.[0]?.message?.content ?? '';
+    },
+    // Reads the server-sent event stream, yielding each content delta.
+    stream: async function* (llmRequest) {
+      const response = await request(llmRequest, true);
+      const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data) continue;
+          if (data === '[DONE]') return;
+          const choice = JSON.parse(data).choices?.[0];
+          if (choice?.finish_reason === 'content_filter') throw new LlmError('safety');
+          if (choice?.delta?.content) yield choice.delta.content;
+        }
+      }
+    },
+  };
+};
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { LlmProvider, LlmRequest } from '../llmProvider';
+import { LlmError, errorFromStatus } from '../llmErrors';
+import type { ProxyError, ProxyStreamEvent } from '../../types';
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+interface ProxyOptions {
+  baseUrl?: string; // Where the proxy's endpoints live; `/api` on the same origin by default
+  model?: string; // Should match the proxy's LLM_MODEL, as it keys the response cache
+}
+
+/**
+ * A provider that sends requests to the API proxy (`server/index.ts`), which holds the Gemini
+ * key so that it never ships in the browser bundle. Each task has its own endpoint, e.g.
+ * `POST /api/summary`, with `/stream` appended for a streamed response. Requests must come from
+ * `buildRequest`, as the proxy takes their inputs rather than their prompts.
+ */
+export const createProxyProvider = (options: ProxyOptions): LlmProvider => {
+  const baseUrl = (options.baseUrl || '/api').replace(/\/+$/, '');
+  const model = options.model || DEFAULT_MODEL;
+
+  // Sends only the inputs the request was built from; the proxy builds the prompt itself.
+  const post = async (path: string, { input, signal }: LlmRequest): Promise<Response> => {
+    if (!input) throw new LlmError('unknown', 'This request cannot be sent through the API proxy.');
+    const response = await fetch(`${baseUrl}/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+      signal,
+    });
+    if (!response.ok) {
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      const retryAfterMs = retryAfter > 0 ? retryAfter * 1000 : undefined;
+      // The proxy explains its own failures; anything else (e.g. a gateway error) is classified by status.
+      const body: { error?: ProxyError } | null = await response.json().catch(() => null);
+      if (body?.error) {
+        throw new LlmError(body.error.kind, body.error.message, { status: response.status, retryAfterMs });
+      }
+      throw errorFromStatus(response.status, `The API proxy at ${baseUrl} responded with status ${response.status}.`, { retryAfterMs });
+    }
+    return response;
+  };
+
+  return {
+    id: 'proxy',
+    label: `Gemini via API proxy (${model})`,
+    model,
+    // The proxy checks its own configuration and reports a missing key on the first request.
+    configurationError: () => null,
+    supportsUrlContext: true,
+    generate: async (request) => {
+      const response = await post(request.task, request);
+      const data: { text: string } = await response.json();
+      return data.text;
+    },
+    // Reads the newline-delimited JSON events, yielding each piece of text.
+    stream: async function* (request) {
+      const response = await post(`${request.task}/stream`, request);
+      const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event: ProxyStreamEvent = JSON.parse(line);
+          if ('error' in event) throw new LlmError(event.error.kind, event.error.message);
+          if ('done' in event) return { urlContext: event.urlContext };
+          yield event.text;
+        }
+      }
+      // The connection closed without the final event, so the answer may be cut short.
+      throw new LlmError('unavailable', 'The connection to the API proxy was lost before the answer finished.');
+    },
+  };
+};
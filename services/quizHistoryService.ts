@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { QuestionOutcome, QuizAttempt } from '../types';
+
+const STORAGE_KEY = 'trillium.quizHistory';
+
+export interface SectionMastery {
+  sectionId: string;
+  correct: number;
+  total: number;
+  accuracy: number; // 0 to 1; 0 when nothing has been answered
+}
+
+const isOutcome = (value: unknown): value is QuestionOutcome => {
+  if (!value || typeof value !== 'object') return false;
+  const { type, sectionId, correct } = value as Record<string, unknown>;
+  return typeof type === 'string' && (sectionId === undefined || typeof sectionId === 'string') && typeof correct === 'boolean';
+};
+
+const isAttempt = (value: unknown): value is QuizAttempt => {
+  if (!value || typeof value !== 'object') return false;
+  const { id, documentId, completedAt, difficulty, outcomes } = value as Record<string, unknown>;
+  return typeof id === 'string' && typeof documentId === 'string' && typeof completedAt === 'string'
+    && typeof difficulty === 'string' && Array.isArray(outcomes) && outcomes.every(isOutcome);
+};
+
+/**
+ * Reads every recorded attempt from localStorage, skipping any entry that is not an attempt.
+ * @returns The stored attempts, or an empty list if nothing is stored or the data is unreadable.
+ */
+const readAttempts = (): QuizAttempt[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const data: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(data) ? data.filter(isAttempt) : [];
+  } catch (error) {
+    console.error('Error reading quiz history:', error);
+    return [];
+  }
+};
+
+const writeAttempts = (attempts: QuizAttempt[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(attempts));
+};
+
+/**
+ * @returns The document's attempts, oldest first.
+ */
+export const loadAttempts = (documentId: string): QuizAttempt[] => {
+  return readAttempts()
+    .filter(attempt => attempt.documentId === documentId)
+    .sort((a, b) => a.completedAt.localeCompare(b.completedAt));
+};
+
+export const deleteAttempts = (documentId: string) => {
+  writeAttempts(readAttempts().filter(attempt => attempt.documentId !== documentId));
+};
+
+export const recordAttempt = (attempt: Omit<QuizAttempt, 'id' | 'completedAt'>): QuizAttempt => {
+  const saved: QuizAttempt = { ...attempt, id: crypto.randomUUID(), completedAt: new Date().toISOString() };
+  writeAttempts([...readAttempts(), saved]);
+  return saved;
+};
+
+/**
+ * Adds outcomes to a recorded attempt, for answers that could only be graded after it was saved.
+ */
+export const addOutcomes = (attemptId: string, outcomes: QuestionOutcome[]) => {
+  writeAttempts(readAttempts().map(attempt =>
+    attempt.id === attemptId ? { ...attempt, outcomes: [...attempt.outcomes, ...outcomes] } : attempt));
+};
+
+export const clearAttempts = (documentId: string) => {
+  writeAttempts(readAttempts().filter(attempt => attempt.documentId !== documentId));
+};
+
+export const attemptScore = (attempt: QuizAttempt): number => {
+  return attempt.outcomes.filter(outcome => outcome.correct).length;
+};
+
+/**
+ * Totals every answered question by section, in the order of `sectionIds`.
+ */
+export const sectionMastery = (attempts: QuizAttempt[], sectionIds: string[]): SectionMastery[] => {
+  return sectionIds.map(sectionId => {
+    const outcomes = attempts.flatMap(attempt => attempt.outcomes).filter(outcome => outcome.sectionId === sectionId);
+    const correct = outcomes.filter(outcome => outcome.correct).length;
+    return { sectionId, correct, total: outcomes.length, accuracy: outcomes.length ? correct / outcomes.length : 0 };
+  });
+};
+
+/**
+ * Picks the practised sections with the lowest accuracy, leaving out any already mastered.
+ */
+export const weakestSections = (mastery: SectionMastery[], count = 2): string[] => {
+  return mastery
+    .filter(section => section.total > 0 && section.accuracy < 1)
+    .sort((a, b) => a.accuracy - b.accuracy || b.total - a.total)
+    .slice(0, count)
+    .map(section => section.sectionId);
+};
@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { QuizAnswer, QuizQuestion, QuizQuestionType } from '../types';
+
+export const QUESTION_TYPE_LABELS: Record<QuizQuestionType, string> = {
+  multiple_choice: 'Multiple choice',
+  true_false: 'True / false',
+  multi_select: 'Multi-select',
+  ordering: 'Ordering',
+  free_text: 'Short answer',
+};
+
+/**
+ * A problem with one question of a generated quiz. `position` is the question's 1-based place in
+ * the model's response, or 0 for a problem with the response as a whole.
+ */
+export interface QuizIssue {
+  position: number;
+  question?: string;
+  message: string;
+}
+
+export interface QuizValidation {
+  questions: QuizQuestion[];
+  issues: QuizIssue[];
+}
+
+const MULTIPLE_CHOICE_OPTIONS = 4;
+const MIN_SELECT_OPTIONS = 4;
+const MAX_SELECT_OPTIONS = 6;
+const MIN_ORDERING_ITEMS = 3;
+const MAX_ORDERING_ITEMS = 6;
+
+const normalize = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Checks that a value is a list of distinct, non-empty strings of an allowed length.
+const checkList = (value: unknown, name: string, min: number, max: number): string | null => {
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string' && item.trim())) {
+    return `'${name}' must be a list of non-empty strings`;
+  }
+  if (value.length < min || value.length > max) {
+    return min === max ? `'${name}' must have exactly ${min} entries, not ${value.length}` : `'${name}' must have ${min} to ${max} entries, not ${value.length}`;
+  }
+  if (new Set(value.map(normalize)).size !== value.length) return `'${name}' contains duplicates`;
+  return null;
+};
+
+/**
+ * Checks one question from the model's flat JSON and converts it into a `QuizQuestion`.
+ * @returns The question, or a message describing what is wrong with it.
+ */
+export const validateQuizQuestion = (raw: unknown): QuizQuestion | string => {
+  if (!raw || typeof raw !== 'object') return 'not an object';
+  const { type, question, explanation, sourceQuote, sourceAnchor, options, correctAnswer, correctAnswers, items } = raw as Record<string, unknown>;
+  if (typeof question !== 'string' || !question.trim()) return `'question' is missing`;
+  if (typeof explanation !== 'string' || !explanation.trim()) return `'explanation' is missing`;
+  const base = {
+    question: question.trim(),
+    explanation: explanation.trim(),
+    // The source is checked against the document later, once the passages are at hand.
+    source: typeof sourceQuote === 'string' && sourceQuote.trim()
+      ? { anchor: typeof sourceAnchor === 'string' ? sourceAnchor : '', quote: sourceQuote.trim(), verified: false }
+      : undefined,
+  };
+  switch (type) {
+    case 'multiple_choice': {
+      const error = checkList(options, 'options', MULTIPLE_CHOICE_OPTIONS, MULTIPLE_CHOICE_OPTIONS);
+      if (error) return error;
+      const optionList = options as string[];
+      const answer = typeof correctAnswer === 'string' ? optionList.find(option => normalize(option) === normalize(correctAnswer)) : undefined;
+      if (!answer) return `'correctAnswer' (${JSON.stringify(correctAnswer)}) is not one of the options`;
+      return { ...base, type: 'multiple_choice', options: optionList, correctAnswer: answer };
+    }
+    case 'true_false': {
+      const answer = String(correctAnswer).trim().toLowerCase();
+      if (answer !== 'true' && answer !== 'false') return `'correctAnswer' must be "true" or "false"`;
+      return { ...base, type: 'true_false', correctAnswer: answer === 'true' };
+    }
+    case 'multi_select': {
+      const error = checkList(options, 'options', MIN_SELECT_OPTIONS, MAX_SELECT_OPTIONS);
+      if (error) return error;
+      if (!Array.isArray(correctAnswers)) return `'correctAnswers' must be a list`;
+      const optionList = options as string[];
+      const answers = optionList.filter(option =>
+        correctAnswers.some(answer => typeof answer === 'string' && normalize(answer) === normalize(option)));
+      if (answers.length !== correctAnswers.length) return `'correctAnswers' must all be options`;
+      if (answers.length === 0 || answers.length === optionList.length) {
+        return 'at least one option must be correct and at least one incorrect';
+      }
+      return { ...base, type: 'multi_select', options: optionList, correctAnswers: answers };
+    }
+    case 'ordering': {
+      const error = checkList(items, 'items', MIN_ORDERING_ITEMS, MAX_ORDERING_ITEMS);
+      if (error) return error;
+      return { ...base, type: 'ordering', items: items as string[] };
+    }
+    case 'free_text':
+      if (typeof correctAnswer !== 'string' || !correctAnswer.trim()) return `'correctAnswer' must hold a reference answer`;
+      return { ...base, type: 'free_text', referenceAnswer: correctAnswer.trim() };
+    default:
+      return `unknown question type ${JSON.stringify(type)}`;
+  }
+};
+
+/**
+ * Validates a whole quiz response. Valid questions are kept, in order; questions that are
+ * malformed, of a type that was not asked for, or repeat an earlier question (including any in
+ * `existing`) are reported as issues instead.
+ */
+export const validateQuiz = (payload: unknown, types: QuizQuestionType[], existing: QuizQuestion[] = []): QuizValidation => {
+  const list = payload && typeof payload === 'object' ? (payload as { quiz?: unknown }).quiz : undefined;
+  if (!Array.isArray(list)) {
+    return { questions: [], issues: [{ position: 0, message: `the response has no 'quiz' list` }] };
+  }
+  const seen = new Set(existing.map(question => normalize(question.question)));
+  const questions: QuizQuestion[] = [];
+  const issues: QuizIssue[] = [];
+  list.forEach((raw, index) => {
+    const text = typeof raw?.question === 'string' ? raw.question : undefined;
+    const result = validateQuizQuestion(raw);
+    const issue = (message: string) => issues.push({ position: index + 1, question: text, message });
+    if (typeof result === 'string') return issue(result);
+    if (!types.includes(result.type)) return issue(`type "${result.type}" was not requested`);
+    if (seen.has(normalize(result.question))) return issue('duplicates an earlier question');
+    seen.add(normalize(result.question));
+    questions.push(result);
+  });
+  return { questions, issues };
+};
+
+const shuffle = <T>(values: T[]): T[] => {
+  const items = [...values];
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
+
+/**
+ * Shuffles a question's options, since models tend to put the correct answer in the same slot.
+ */
+export const shuffleOptions = (question: QuizQuestion): QuizQuestion => {
+  if (question.type === 'multiple_choice' || question.type === 'multi_select') {
+    return { ...question, options: shuffle(question.options) };
+  }
+  return question;
+};
+
+/**
+ * The answer a question starts out with: ordering questions start from a shuffled order (never
+ * the correct one) that the user rearranges, everything else starts unanswered.
+ */
+export const initialAnswer = (question: QuizQuestion): QuizAnswer | undefined => {
+  if (question.type !== 'ordering') return undefined;
+  let items = shuffle(question.items);
+  while (items.join('\n') === question.items.join('\n')) items = shuffle(question.items);
+  return items;
+};
+
+export const isAnswered = (question: QuizQuestion, answer: QuizAnswer | undefined): boolean => {
+  switch (question.type) {
+    case 'true_false':
+      return typeof answer === 'boolean';
+    case 'multi_select':
+      return Array.isArray(answer) && answer.length > 0;
+    case 'ordering':
+      return Array.isArray(answer);
+    default:
+      return typeof answer === 'string' && answer.trim().length > 0;
+  }
+};
+
+/**
+ * Scores every type except free text, which is graded by the model. Multi-select and ordering
+ * questions only count when fully right.
+ */
+export const isCorrect = (question: Exclude<QuizQuestion, { type: 'free_text' }>, answer: QuizAnswer | undefined): boolean => {
+  switch (question.type) {
+    case 'multiple_choice':
+      return answer === question.correctAnswer;
+    case 'true_false':
+      return answer === question.correctAnswer;
+    case 'multi_select':
+      return Array.isArray(answer)
+        && answer.length === question.correctAnswers.length
+        && question.correctAnswers.every(option => answer.includes(option));
+    case 'ordering':
+      return Array.isArray(answer) && answer.join('\n') === question.items.join('\n');
+  }
+};
+
+export const formatAnswer = (question: QuizQuestion, answer: QuizAnswer | undefined): string => {
+  if (answer === undefined || answer === '') return 'No answer';
+  if (typeof answer === 'boolean') return answer ? 'True' : 'False';
+  if (Array.isArray(answer)) return answer.join(question.type === 'ordering' ? ' → ' : ', ');
+  return answer;
+};
+
+export const formatCorrectAnswer = (question: QuizQuestion): string => {
+  switch (question.type) {
+    case 'multiple_choice':
+      return question.correctAnswer;
+    case 'true_false':
+      return question.correctAnswer ? 'True' : 'False';
+    case 'multi_select':
+      return question.correctAnswers.join(', ');
+    case 'ordering':
+      return question.items.join(' → ');
+    case 'free_text':
+      return question.referenceAnswer;
+  }
+};
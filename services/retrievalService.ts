@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { parsePassages, sectionLookup } from './documentParser';
+import type { Passage } from './documentParser';
+import { buildSearchIndex, search } from './searchService';
+import type { SearchIndex } from './searchService';
+
+/**
+ * A retrievable piece of the document: one or more consecutive passages from the same
+ * outline node, kept under a word budget so only what is relevant is sent to the model.
+ */
+export interface Chunk extends Passage {
+  id: number;
+}
+
+export interface RetrievedChunk extends Chunk {
+  score: number; // BM25 score; 0 for chunks added only to fill the context
+}
+
+interface Retriever {
+  chunks: Chunk[];
+  index: SearchIndex;
+}
+
+const MAX_CHUNK_WORDS = 180;
+
+const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// Breaks an over-long passage into sentence-aligned pieces within the word budget.
+const splitPassage = (passage: Passage, maxWords: number): Passage[] => {
+  if (wordCount(passage.text) <= maxWords) return [passage];
+  const sentences = passage.text.match(/[^.!?]+(?:[.!?]+["”’)]*\s*|$)/g) ?? [passage.text];
+  const pieces: Passage[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    if (current && wordCount(current) + wordCount(sentence) > maxWords) {
+      pieces.push({ ...passage, text: current.trim() });
+      current = '';
+    }
+    current += sentence;
+  }
+  if (current.trim()) pieces.push({ ...passage, text: current.trim() });
+  return pieces;
+};
+
+/**
+ * Splits a document into chunks. Passages are merged while they belong to the same outline
+ * node and fit in `maxWords`; headings are not chunked on their own since every chunk
+ * carries its section title.
+ */
+export const chunkDocument = (markdown: string, maxWords = MAX_CHUNK_WORDS): Chunk[] => {
+  const chunks: Chunk[] = [];
+  let current: Passage | null = null;
+
+  const flush = () => {
+    if (current) chunks.push({ ...current, id: chunks.length });
+    current = null;
+  };
+
+  for (const passage of parsePassages(markdown)) {
+    if (passage.text === passage.title) continue;
+    for (const piece of splitPassage(passage, maxWords)) {
+      if (current && current.anchor === piece.anchor && wordCount(current.text) + wordCount(piece.text) <= maxWords) {
+        current = { ...current, text: `${current.text}\n\n${piece.text}` };
+      } else {
+        flush();
+        current = piece;
+      }
+    }
+  }
+  flush();
+  return chunks;
+};
+
+// Chunks and their index are rebuilt only when the document text changes.
+const retrievers = new Map<string, Retriever>();
+
+const getRetriever = (markdown: string): Retriever => {
+  let retriever = retrievers.get(markdown);
+  if (!retriever) {
+    const chunks = chunkDocument(markdown);
+    retriever = { chunks, index: buildSearchIndex(chunks) };
+    retrievers.clear();
+    retrievers.set(markdown, retriever);
+  }
+  return retriever;
+};
+
+// Keeps the chunks that fall inside the given top-level sections (ids from `parseSections`).
+const chunksInSections = (markdown: string, chunks: Chunk[], sectionIds: string[]): Chunk[] => {
+  const sectionOf = sectionLookup(markdown);
+  const wanted = new Set(sectionIds);
+  return chunks.filter(chunk => wanted.has(sectionOf(chunk.anchor) ?? ''));
+};
+
+/**
+ * Picks up to `count` chunks spread evenly across the document, or across the given
+ * sections, for prompts that have no question to rank by (such as quiz generation).
+ */
+export const sampleChunks = (markdown: string, count: number, sectionIds: string[] = []): Chunk[] => {
+  const { chunks: all } = getRetriever(markdown);
+  const chunks = sectionIds.length > 0 ? chunksInSections(markdown, all, sectionIds) : all;
+  if (chunks.length <= count) return chunks;
+  const step = chunks.length / count;
+  return Array.from({ length: count }, (_, i) => chunks[Math.floor(i * step)]);
+};
+
+/**
+ * Returns the `k` chunks most relevant to the query, ranked with BM25, in document order.
+ * If fewer than `k` chunks match (e.g. "what is this about?"), the rest are filled with an
+ * even sample of the document so the model always has some context. Given `sectionIds`,
+ * only chunks inside those top-level sections are considered.
+ */
+export const retrieveChunks = (markdown: string, query: string, k: number, sectionIds: string[] = []): RetrievedChunk[] => {
+  const { chunks: all, index } = getRetriever(markdown);
+  const chunks = sectionIds.length > 0 ? chunksInSections(markdown, all, sectionIds) : all;
+  const allowed = new Set(chunks.map(chunk => chunk.id));
+  const selected = new Map<number, RetrievedChunk>();
+  // Hits outside the sections are dropped, so rank the whole index before keeping the top `k`.
+  for (const hit of search(index, query, sectionIds.length > 0 ? all.length : k)) {
+    const chunk = hit.passage as Chunk;
+    if (selected.size >= k) break;
+    if (allowed.has(chunk.id)) selected.set(chunk.id, { ...chunk, score: hit.score });
+  }
+  for (const chunk of sampleChunks(markdown, k, sectionIds)) {
+    if (selected.size >= Math.min(k, chunks.length)) break;
+    if (!selected.has(chunk.id)) selected.set(chunk.id, { ...chunk, score: 0 });
+  }
+  return [...selected.values()].sort((a, b) => a.id - b.id);
+};
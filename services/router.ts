@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useState, useEffect, useCallback } from 'react';
+
+export type View = 'report' | 'summary' | 'qna' | 'quiz' | 'flashcards' | 'progress' | 'sources' | 'settings' | 'import' | 'glossary' | 'diagram';
+
+const VIEWS: View[] = ['report', 'summary', 'qna', 'quiz', 'flashcards', 'progress', 'sources', 'settings', 'import', 'glossary', 'diagram'];
+
+/**
+ * Everything needed to restore a screen from a link. Routes are encoded in the URL hash as
+ * `#/<view>/<section>?doc=<id>&q=<search>&question=<question>&quote=<quote>&practice=<ids>&term=<id>`,
+ * with empty parts omitted.
+ */
+export interface Route {
+  view: View;
+  documentId?: string;
+  section?: string; // Outline anchor from the document parser
+  search?: string;
+  question?: string;
+  quote?: string; // Verbatim passage: highlighted in the report (e.g. from a citation), or asked about in Q&A
+  practice?: string[]; // Section ids to generate a practice quiz for
+  term?: string; // Id of the glossary term to show
+}
+
+/**
+ * Reads a route from a URL hash. A hash whose path cannot be decoded, e.g. a hand-edited
+ * `#/report/%E0`, opens the report.
+ */
+export const parseRoute = (hash: string): Route => {
+  const [path, query = ''] = hash.replace(/^#\/?/, '').split('?');
+  let view: string, section: string | undefined;
+  try {
+    [view, section] = path.split('/').map(decodeURIComponent);
+  } catch {
+    return { view: 'report' };
+  }
+  const params = new URLSearchParams(query);
+  return {
+    view: VIEWS.includes(view as View) ? view as View : 'report',
+    documentId: params.get('doc') || undefined,
+    section: section || undefined,
+    search: params.get('q') || undefined,
+    question: params.get('question') || undefined,
+    quote: params.get('quote') || undefined,
+    practice: params.get('practice')?.split(',').filter(Boolean) || undefined,
+    term: params.get('term') || undefined,
+  };
+};
+
+export const formatRoute = (route: Route): string => {
+  const path = route.section
+    ? `${route.view}/${encodeURIComponent(route.section)}`
+    : route.view;
+  const params = new URLSearchParams();
+  if (route.documentId) params.set('doc', route.documentId);
+  if (route.search) params.set('q', route.search);
+  if (route.question) params.set('question', route.question);
+  if (route.quote) params.set('quote', route.quote);
+  if (route.practice?.length) params.set('practice', route.practice.join(','));
+  if (route.term) params.set('term', route.term);
+  const query = params.toString();
+  return `#/${path}${query ? `?${query}` : ''}`;
+};
+
+/**
+ * Keeps a `Route` in sync with the URL hash. `navigate` pushes a history entry by default so
+ * back/forward work; pass `{ replace: true }` for updates that should not create one, such as
+ * typing in the search box.
+ */
+export const useRoute = (): [Route, (route: Route, options?: { replace?: boolean }) => void] => {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.hash));
+
+  useEffect(() => {
+    const onHashChange = () => setRoute(parseRoute(window.location.hash));
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  const navigate = useCallback((next: Route, options: { replace?: boolean } = {}) => {
+    const hash = formatRoute(next);
+    if (hash === window.location.hash) return;
+    if (options.replace) {
+      // replaceState does not fire `hashchange`, so update the route directly.
+      window.history.replaceState(null, '', hash);
+      setRoute(parseRoute(hash));
+    } else {
+      window.location.hash = hash;
+    }
+  }, []);
+
+  return [route, navigate];
+};
@@ -0,0 +1,263 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Passage } from './documentParser';
+
+export interface SearchHit {
+  passage: Passage;
+  score: number;
+  snippet: string;
+  highlights: [number, number][]; // Match ranges within `snippet`
+}
+
+interface Posting {
+  passage: number;
+  positions: number[];
+}
+
+export interface SearchIndex {
+  passages: Passage[];
+  lengths: number[];
+  averageLength: number;
+  postings: Map<string, Posting[]>;
+}
+
+interface WordToken {
+  term: string;
+  start: number;
+  end: number;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it', 'its',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which', 'who', 'with',
+]);
+
+// BM25 tuning; the usual defaults.
+const K1 = 1.2;
+const B = 0.75;
+
+const SNIPPET_LENGTH = 180;
+
+// Ordered (suffix, replacement) pairs; the first matching suffix wins.
+const SUFFIXES: [string, string][] = [
+  ['ational', 'ate'], ['ization', 'ize'], ['fulness', 'ful'], ['ousness', 'ous'], ['iveness', 'ive'],
+  ['ations', 'ate'], ['ation', 'ate'], ['ness', ''], ['ment', ''], ['ingly', ''], ['edly', ''],
+  ['ing', ''], ['ed', ''], ['ly', ''],
+];
+
+/**
+ * A light English stemmer: folds plurals and common inflectional/derivational suffixes so
+ * "creating", "created" and "creation" share a term. It deliberately keeps stems at least
+ * three characters long and does not try to be a full Porter implementation.
+ */
+export const stem = (word: string): string => {
+  let result = word;
+  if (result.length <= 3) return result;
+
+  if (result.endsWith('ies') && result.length > 4) result = result.slice(0, -3) + 'y';
+  else if (result.endsWith('sses')) result = result.slice(0, -2);
+  else if (/(?:x|z|ch|sh)es$/.test(result)) result = result.slice(0, -2);
+  else if (result.endsWith('s') && !/(?:ss|us|is)$/.test(result)) result = result.slice(0, -1);
+
+  for (const [suffix, replacement] of SUFFIXES) {
+    if (result.endsWith(suffix) && result.length - suffix.length >= 3) {
+      result = result.slice(0, -suffix.length) + replacement;
+      break;
+    }
+  }
+
+  // Normalize endings so "create", "creating" and "creates" meet at "creat".
+  if (result.length > 4 && result.endsWith('e')) result = result.slice(0, -1);
+  if (/([^aeiouls])\1$/.test(result)) result = result.slice(0, -1);
+  return result;
+};
+
+/**
+ * Splits text into lowercase word tokens with their offsets in the original string.
+ */
+const tokenize = (text: string): WordToken[] => {
+  const tokens: WordToken[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu)) {
+    const word = match[0]
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/['’]s$/, '')
+      .replace(/['’]/g, '');
+    tokens.push({ term: stem(word), start: match.index!, end: match.index! + match[0].length });
+  }
+  return tokens;
+};
+
+export const buildSearchIndex = (passages: Passage[]): SearchIndex => {
+  const postings = new Map<string, Posting[]>();
+  const lengths = passages.map((passage, index) => {
+    const tokens = tokenize(passage.text);
+    tokens.forEach(({ term }, position) => {
+      const list = postings.get(term) ?? [];
+      const last = list[list.length - 1];
+      if (last && last.passage === index) last.positions.push(position);
+      else list.push({ passage: index, positions: [position] });
+      postings.set(term, list);
+    });
+    return tokens.length;
+  });
+  const averageLength = lengths.reduce((sum, length) => sum + length, 0) / Math.max(lengths.length, 1);
+  return { passages, lengths, averageLength, postings };
+};
+
+// Levenshtein distance, giving up as soon as it exceeds `max`.
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Maps a query term to the indexed terms it should match, each with a weight: exact matches
+ * count fully, prefix matches (for the word still being typed) and near misses count less.
+ */
+const expandTerm = (index: SearchIndex, term: string, isLast: boolean): Map<string, number> => {
+  const expansions = new Map<string, number>();
+  if (index.postings.has(term)) expansions.set(term, 1);
+  const maxDistance = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+  for (const candidate of index.postings.keys()) {
+    if (candidate === term) continue;
+    if (isLast && term.length >= 3 && candidate.startsWith(term)) {
+      expansions.set(candidate, Math.max(expansions.get(candidate) ?? 0, 0.7));
+    } else if (maxDistance > 0 && editDistance(term, candidate, maxDistance) <= maxDistance) {
+      expansions.set(candidate, Math.max(expansions.get(candidate) ?? 0, 0.5));
+    }
+  }
+  return expansions;
+};
+
+interface ParsedQuery {
+  terms: string[];
+  phrases: string[][];
+}
+
+// Separates "quoted phrases" from free terms. Stop words are dropped from free terms unless
+// the query consists of nothing else.
+const parseQuery = (query: string): ParsedQuery => {
+  const phrases: string[][] = [];
+  const rest = query.replace(/"([^"]*)"?/g, (_, phrase: string) => {
+    const terms = tokenize(phrase).map(token => token.term);
+    if (terms.length > 0) phrases.push(terms);
+    return ' ';
+  });
+  const words = tokenize(rest).map(token => token.term);
+  const meaningful = words.filter(term => !STOP_WORDS.has(term));
+  return { terms: meaningful.length > 0 ? meaningful : words, phrases };
+};
+
+const containsPhrase = (index: SearchIndex, passage: number, phrase: string[]): boolean => {
+  const positions = phrase.map(term =>
+    index.postings.get(term)?.find(posting => posting.passage === passage)?.positions ?? []);
+  return positions[0].some(start => positions.every((list, offset) => list.includes(start + offset)));
+};
+
+/**
+ * Returns every indexed term the query can match, for highlighting.
+ */
+const matchedTerms = (index: SearchIndex, query: string): Set<string> => {
+  const { terms, phrases } = parseQuery(query);
+  const matched = new Set<string>(phrases.flat());
+  terms.forEach((term, i) => {
+    expandTerm(index, term, i === terms.length - 1).forEach((_, candidate) => matched.add(candidate));
+  });
+  return matched;
+};
+
+/**
+ * Builds a function that finds the character ranges in any text that a query matches.
+ * Used to highlight results in snippets and in the rendered report.
+ */
+export const createMatcher = (index: SearchIndex, query: string): ((text: string) => [number, number][]) => {
+  const terms = matchedTerms(index, query);
+  return (text: string) => tokenize(text)
+    .filter(token => terms.has(token.term))
+    .map(token => [token.start, token.end] as [number, number]);
+};
+
+const buildSnippet = (text: string, ranges: [number, number][]): Pick<SearchHit, 'snippet' | 'highlights'> => {
+  if (text.length <= SNIPPET_LENGTH) return { snippet: text, highlights: ranges };
+  const center = ranges.length > 0 ? ranges[0][0] : 0;
+  let start = Math.max(0, center - SNIPPET_LENGTH / 3);
+  start = start === 0 ? 0 : text.indexOf(' ', start) + 1;
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) end = text.lastIndexOf(' ', end);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  return {
+    snippet: prefix + text.slice(start, end) + suffix,
+    highlights: ranges
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]) => [from - start + prefix.length, to - start + prefix.length]),
+  };
+};
+
+/**
+ * Ranks passages against a query with BM25. Free terms are matched by stem with prefix and
+ * typo tolerance; "quoted phrases" must appear verbatim (after stemming). Passages that
+ * match more of the query's terms are ranked ahead of those that match fewer.
+ */
+export const search = (index: SearchIndex, query: string, limit = 10): SearchHit[] => {
+  const { terms, phrases } = parseQuery(query);
+  if (terms.length === 0 && phrases.length === 0) return [];
+
+  const passageCount = index.passages.length;
+  const scores = new Map<number, number>();
+  const coverage = new Map<number, number>();
+
+  const scoreTerm = (term: string, weight: number, hits: Set<number>) => {
+    const list = index.postings.get(term) ?? [];
+    const idf = Math.log(1 + (passageCount - list.length + 0.5) / (list.length + 0.5));
+    for (const { passage, positions } of list) {
+      const tf = positions.length;
+      const norm = tf * (K1 + 1) / (tf + K1 * (1 - B + B * index.lengths[passage] / index.averageLength));
+      scores.set(passage, (scores.get(passage) ?? 0) + weight * idf * norm);
+      hits.add(passage);
+    }
+  };
+
+  const queryParts = [...terms.map((term, i) => expandTerm(index, term, i === terms.length - 1)), ...phrases.map(phrase =>
+    new Map(phrase.filter(term => !STOP_WORDS.has(term)).map(term => [term, 1] as [string, number])))];
+  for (const expansions of queryParts) {
+    const hits = new Set<number>();
+    expansions.forEach((weight, term) => scoreTerm(term, weight, hits));
+    hits.forEach(passage => coverage.set(passage, (coverage.get(passage) ?? 0) + 1));
+  }
+
+  const matcher = createMatcher(index, query);
+  return [...scores.entries()]
+    .filter(([passage]) => phrases.every(phrase => containsPhrase(index, passage, phrase)))
+    .map(([passage, score]) => {
+      const covered = (coverage.get(passage) ?? 0) / queryParts.length;
+      const text = index.passages[passage].text;
+      return {
+        passage: index.passages[passage],
+        score: score * covered * covered,
+        ...buildSnippet(text, matcher(text)),
+      };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
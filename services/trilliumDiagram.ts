@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { parseOutline, flattenOutline } from './documentParser';
+import type { OutlineNode } from './documentParser';
+
+export type DiagramElementId =
+  | 'reflective-wave'
+  | 'consciousness-filter'
+  | 'probabilistic-landscape'
+  | 'square'
+  | 'visual'
+  | 'physical'
+  | 'emotional'
+  | 'mental'
+  | 'sphere'
+  | 'circle';
+
+// A part of the Trillium Model diagram and how to find the text that discusses it.
+export interface DiagramElement {
+  id: DiagramElementId;
+  label: string;
+  caption: string; // Its place in the model, in a phrase
+  match: RegExp; // Matches the title of the heading or concept that discusses it
+}
+
+export const DIAGRAM_ELEMENTS: DiagramElement[] = [
+  { id: 'reflective-wave', label: 'The Reflective Wave (-1)', caption: 'The past: a repository of truth and obstacles.', match: /reflective wave/i },
+  { id: 'consciousness-filter', label: 'The Consciousness Filter (0)', caption: 'The present: the only point where creation and decisions happen.', match: /consciousness filter/i },
+  { id: 'probabilistic-landscape', label: 'The Probabilistic Landscape (+1)', caption: 'The future: the realm of potential, engaged from the present.', match: /probabilistic landscape/i },
+  { id: 'square', label: 'The Square', caption: 'The container of embodied reality, with four pillars at its corners.', match: /\bsquare\b/i },
+  { id: 'visual', label: 'Visual', caption: 'One of the Square\'s four pillars: how we see.', match: /\bsquare\b/i },
+  { id: 'physical', label: 'Physical', caption: 'One of the Square\'s four pillars: how we exist physically.', match: /\bsquare\b/i },
+  { id: 'emotional', label: 'Emotional', caption: 'One of the Square\'s four pillars: how we feel.', match: /\bsquare\b/i },
+  { id: 'mental', label: 'Mental', caption: 'One of the Square\'s four pillars: how we think.', match: /\bsquare\b/i },
+  { id: 'sphere', label: 'The Sphere', caption: 'The point of the "eternal now", where past and future converge.', match: /\bsphere\b/i },
+  { id: 'circle', label: 'The Circle', caption: 'The feedback loop joining past, present and future.', match: /\bcircle\b/i },
+];
+
+/**
+ * Finds the heading or concept that discusses each diagram element, taking the first one in
+ * document order whose title matches.
+ * @returns The outline node for each element, or null if the document does not cover it.
+ */
+export const resolveDiagramSections = (markdown: string): Record<DiagramElementId, OutlineNode | null> => {
+  const nodes = flattenOutline(parseOutline(markdown));
+  return Object.fromEntries(
+    DIAGRAM_ELEMENTS.map(element => [element.id, nodes.find(node => element.match.test(node.title)) ?? null])
+  ) as Record<DiagramElementId, OutlineNode | null>;
+};
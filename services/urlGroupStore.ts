@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { SourceUrl, URLGroup } from '../types';
+
+const STORAGE_KEY = 'trillium.urlGroups';
+const EXPORT_FORMAT = 'trillium.urlGroups';
+const EXPORT_VERSION = 1;
+
+// Gemini reads at most 20 URLs per request through URL context.
+export const MAX_URLS_PER_GROUP = 20;
+
+export interface UrlGroupLibrary {
+  groups: URLGroup[];
+  activeGroupId: string;
+}
+
+export interface UrlGroupImport {
+  groups: URLGroup[];
+  skippedUrls: number; // Invalid, duplicate or over-the-limit URLs that were dropped
+}
+
+const defaultLibrary = (): UrlGroupLibrary => {
+  const group = createGroup('My Sources');
+  return { groups: [group], activeGroupId: group.id };
+};
+
+export const isValidUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch (e) {
+    return false;
+  }
+};
+
+const cleanTags = (tags: string[]): string[] => [...new Set(tags.map(tag => tag.trim()).filter(Boolean))];
+
+/**
+ * Splits comma-separated tags, trimming them and dropping empty or repeated ones.
+ */
+export const parseTags = (value: string): string[] => cleanTags(value.split(','));
+
+export const createGroup = (name: string, urls: SourceUrl[] = []): URLGroup => ({
+  id: crypto.randomUUID(),
+  name,
+  urls,
+});
+
+/**
+ * Copies a group under a new id, picking a "(copy)" name that is not already taken.
+ */
+export const duplicateGroup = (group: URLGroup, groups: URLGroup[]): URLGroup => {
+  let name = `${group.name} (copy)`;
+  for (let n = 2; groups.some(existing => existing.name === name); n++) {
+    name = `${group.name} (copy ${n})`;
+  }
+  return createGroup(name, group.urls.map(source => ({ ...source, tags: [...source.tags] })));
+};
+
+/**
+ * Reads the URL groups and the active group from localStorage.
+ * @returns The stored library, or a single empty group if nothing is stored or the data is unreadable.
+ */
+export const loadUrlGroups = (): UrlGroupLibrary => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const library: UrlGroupLibrary | null = raw ? JSON.parse(raw) : null;
+    if (!library?.groups?.length) return defaultLibrary();
+    const activeGroupId = library.groups.some(group => group.id === library.activeGroupId)
+      ? library.activeGroupId
+      : library.groups[0].id;
+    return { groups: library.groups, activeGroupId };
+  } catch (error) {
+    console.error('Error reading URL groups:', error);
+    return defaultLibrary();
+  }
+};
+
+export const saveUrlGroups = (library: UrlGroupLibrary) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(library));
+};
+
+/**
+ * Serializes groups for sharing. Ids are left out, since they only matter locally.
+ */
+export const exportUrlGroups = (groups: URLGroup[]): string => {
+  return JSON.stringify({
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    groups: groups.map(({ name, urls }) => ({ name, urls })),
+  }, null, 2);
+};
+
+/**
+ * Parses a file written by `exportUrlGroups`. Imported groups get fresh ids so they never
+ * overwrite local ones; URLs that are invalid, repeated or beyond the per-group limit are dropped.
+ * @throws If the file is not a URL group export.
+ */
+export const parseUrlGroupImport = (json: string): UrlGroupImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error('The file is not valid JSON.');
+  }
+  const { format, version, groups: rawGroups } = (data ?? {}) as Record<string, unknown>;
+  if (format !== EXPORT_FORMAT || !Array.isArray(rawGroups)) {
+    throw new Error('The file is not a URL group export.');
+  }
+  if (typeof version === 'number' && version > EXPORT_VERSION) {
+    throw new Error('The file was exported by a newer version of the app.');
+  }
+
+  let skippedUrls = 0;
+  const groups = rawGroups.map((raw: { name?: unknown; urls?: unknown } | null, index: number) => {
+    const urls: SourceUrl[] = [];
+    for (const source of Array.isArray(raw?.urls) ? raw.urls : []) {
+      const url = typeof source === 'string' ? source : source?.url;
+      if (typeof url !== 'string' || !isValidUrl(url) || urls.some(existing => existing.url === url) || urls.length >= MAX_URLS_PER_GROUP) {
+        skippedUrls++;
+        continue;
+      }
+      urls.push({
+        url,
+        note: typeof source?.note === 'string' && source.note.trim() ? source.note.trim() : undefined,
+        tags: Array.isArray(source?.tags) ? cleanTags(source.tags.filter((tag: unknown) => typeof tag === 'string')) : [],
+      });
+    }
+    const name = typeof raw?.name === 'string' && raw.name.trim() ? raw.name.trim() : `Imported group ${index + 1}`;
+    return createGroup(name, urls);
+  });
+  if (groups.length === 0) {
+    throw new Error('The file does not contain any groups.');
+  }
+  return { groups, skippedUrls };
+};
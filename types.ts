@@ -3,12 +3,87 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-export interface QuizQuestion {
+export type QuizQuestionType = 'multiple_choice' | 'true_false' | 'multi_select' | 'ordering' | 'free_text';
+
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+
+// How a summary is written: a one-line TL;DR, a paragraph, a bullet outline, for a child, or for a specialist.
+export type SummaryStyle = 'tldr' | 'paragraph' | 'outline' | 'eli5' | 'expert';
+
+// Where in the document a quiz question was drawn from, checked like a Q&A citation.
+export type QuizSource = Omit<Citation, 'id'>;
+
+interface QuizQuestionBase {
   question: string;
+  explanation: string; // Why the correct answer is correct
+  source?: QuizSource;
+}
+
+export interface MultipleChoiceQuestion extends QuizQuestionBase {
+  type: 'multiple_choice';
   options: string[];
   correctAnswer: string;
 }
 
+export interface TrueFalseQuestion extends QuizQuestionBase {
+  type: 'true_false';
+  question: string; // A statement to judge
+  correctAnswer: boolean;
+}
+
+export interface MultiSelectQuestion extends QuizQuestionBase {
+  type: 'multi_select';
+  options: string[];
+  correctAnswers: string[];
+}
+
+export interface OrderingQuestion extends QuizQuestionBase {
+  type: 'ordering';
+  items: string[]; // In the correct order
+}
+
+export interface FreeTextQuestion extends QuizQuestionBase {
+  type: 'free_text';
+  referenceAnswer: string; // Model answer the response is graded against
+}
+
+export type QuizQuestion =
+  | MultipleChoiceQuestion
+  | TrueFalseQuestion
+  | MultiSelectQuestion
+  | OrderingQuestion
+  | FreeTextQuestion;
+
+// What the user gave: an option, true/false, the selected options, the items in their chosen order, or free text.
+export type QuizAnswer = string | boolean | string[];
+
+export interface QuizConfig {
+  questionCount: number;
+  difficulty: QuizDifficulty;
+  types: QuizQuestionType[];
+  sectionIds: string[]; // Top-level sections to draw from; empty for the whole document
+}
+
+export interface FreeTextGrade {
+  correct: boolean;
+  feedback: string;
+}
+
+export interface QuestionOutcome {
+  type: QuizQuestionType;
+  sectionId?: string; // Top-level section of the question's source, if it had one
+  correct: boolean;
+}
+
+// A submitted quiz, kept so progress can be tracked over time.
+export interface QuizAttempt {
+  id: string;
+  documentId: string;
+  completedAt: string; // ISO timestamp
+  difficulty: QuizDifficulty;
+  outcomes: QuestionOutcome[];
+}
+
 export enum MessageSender {
   USER = 'user',
   MODEL = 'model',
@@ -20,15 +95,155 @@ export interface UrlContextMetadataItem {
   urlRetrievalStatus: string;
 }
 
+export interface Citation {
+  id: number; // Footnote number used in the answer text, e.g. [1]
+  anchor: string; // Outline anchor of the cited section
+  quote: string; // Verbatim span from the document
+  verified: boolean; // Whether the quote was actually found in the document
+}
+
+export type AnswerStatus = 'answered' | 'not_found';
+
+export interface GroundedAnswer {
+  status: AnswerStatus;
+  answer: string; // Markdown with [n] footnote markers
+  citations: Citation[];
+}
+
+// A document excerpt that was sent to the model, kept for debugging retrieval.
+export interface ContextChunk {
+  anchor: string;
+  title: string;
+  text: string;
+  score: number;
+}
+
+// The part of a document a Q&A answer was limited to, shown above the answer.
+export interface AnswerScope {
+  label: string; // e.g. the titles of the chosen sections
+  passage?: string; // The selected text, when the question was about a selection
+}
+
+// Why a request to the model failed; see `LlmError`.
+export type LlmErrorKind = 'auth' | 'rate_limited' | 'quota' | 'offline' | 'safety' | 'malformed' | 'unavailable' | 'unknown';
+
+// How the API proxy reports a failed request, in an error response or at the end of a stream.
+export interface ProxyError {
+  kind: LlmErrorKind;
+  message: string;
+}
+
+// One line of a streamed proxy response, which is newline-delimited JSON.
+export type ProxyStreamEvent =
+  | { text: string }
+  | { done: true; urlContext?: UrlContextMetadataItem[] }
+  | { error: ProxyError };
+
 export interface ChatMessage {
   id: string;
   text: string;
   sender: MessageSender;
   isLoading?: boolean;
   urlContext?: UrlContextMetadataItem[];
+  answerStatus?: AnswerStatus;
+  citations?: Citation[];
+  context?: ContextChunk[];
+  scope?: AnswerScope;
+  error?: LlmErrorKind; // Set on the system message that replaces an answer which failed
+}
+
+// A page in a URL group, with the curator's notes on why it is there.
+export interface SourceUrl {
+  url: string;
+  note?: string;
+  tags: string[];
 }
 
 export interface URLGroup {
   id: string;
   name: string;
+  urls: SourceUrl[];
+}
+
+export interface Document {
+  id: string;
+  title: string;
+  author: string;
+  body: string; // Markdown source of the document
+  revision: number;
+}
+
+// Lightweight listing entry used by the document picker.
+export type DocumentSummary = Omit<Document, 'body'>;
+
+/**
+ * A flashcard with its SM-2 scheduling state. Dates are local calendar days (`YYYY-MM-DD`).
+ */
+export interface Flashcard {
+  id: string;
+  documentId: string;
+  sectionId: string; // Top-level section the card was generated from
+  front: string;
+  back: string;
+  ease: number; // SM-2 easiness factor, at least 1.3
+  interval: number; // Days until the next review
+  repetitions: number; // Successful reviews in a row
+  due: string;
+  introduced?: string; // Day of the first review; unset while the card is new
+}
+
+// How well a card was recalled, on the SM-2 scale of 0 (blackout) to 5 (perfect).
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink';
+
+/**
+ * Locates a passage by its own text plus the text just before and after it, so it can be
+ * found again after the document around it has been edited.
+ */
+export interface TextQuote {
+  exact: string;
+  prefix: string;
+  suffix: string;
+}
+
+// A highlighted passage in a document, optionally with a note.
+export interface Annotation {
+  id: string;
+  documentId: string;
+  anchor: string; // Outline anchor of the heading or concept the passage was under
+  quote: TextQuote;
+  color: HighlightColor;
+  note: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+// A named concept in a document's glossary.
+export interface GlossaryTerm {
+  id: string; // Slug of the term, unique within the glossary
+  term: string;
+  aliases: string[]; // Other names the document uses for the concept
+  definition: string;
+  anchor: string; // Outline anchor of the passage that defines the term
+  quote?: string; // Verbatim text from the document supporting the definition
+}
+
+// A directed link between two glossary terms, e.g. "feeds into".
+export interface ConceptRelation {
+  source: string; // Term id
+  target: string; // Term id
+  label: string;
+}
+
+/**
+ * The concepts extracted from one document and how they relate. `revision` is the document
+ * revision they were extracted from, so an edited document can prompt a refresh.
+ */
+export interface Glossary {
+  documentId: string;
+  revision: number;
+  terms: GlossaryTerm[];
+  relations: ConceptRelation[];
+  createdAt: string; // ISO timestamp
 }
@@ -1,12 +1,32 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Provider keys are secrets, so a build never contains them: with a Gemini key the app goes
+    // through the API proxy (`npm run server`), which keeps the key on the server. Only the dev
+    // server, on the developer's own machine, may call a provider directly with a key.
+    const provider = env.LLM_PROVIDER || (env.GEMINI_API_KEY ? 'proxy' : 'mock');
+    if (command === 'build' && provider === 'gemini') {
+      throw new Error('LLM_PROVIDER=gemini would put the Gemini key in the bundle. Build with LLM_PROVIDER=proxy and run the API proxy instead.');
+    }
+    const secret = (value?: string) => command === 'serve' && value ? JSON.stringify(value) : 'undefined';
+    const proxyTarget = `http://localhost:${env.PROXY_PORT || 8787}`;
     return {
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': provider === 'gemini' ? secret(env.GEMINI_API_KEY) : 'undefined',
+        'process.env.LLM_PROVIDER': JSON.stringify(provider),
+        'process.env.LLM_MODEL': JSON.stringify(env.LLM_MODEL),
+        'process.env.LLM_PROXY_URL': JSON.stringify(env.LLM_PROXY_URL),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_API_KEY': secret(env.OPENAI_API_KEY)
+      },
+      // Forward the proxy's endpoints, so `npm run server` and `npm run dev` work side by side.
+      server: {
+        proxy: { '/api': proxyTarget },
+      },
+      preview: {
+        proxy: { '/api': proxyTarget },
       },
       resolve: {
         alias: {